@@ -0,0 +1,44 @@
+// app/api/experiments/[id]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteExperiment, getExperiment, storeError } from '@/lib/experiment-store';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * API: /api/experiments/[id]
+ *
+ * - GET: StoredExperiment completo ({ id, name, createdAt, experiment })
+ * - DELETE: borra el experimento → { deleted: id }
+ *
+ * Id desconocido → 404 con { error }.
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+    const { id } = await params;
+
+    try {
+        const stored = await getExperiment(id);
+        if (!stored) return notFound(id);
+        return NextResponse.json(stored, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error: unknown) {
+        return storeError('No se pudo leer el experimento.', error);
+    }
+}
+
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+    const { id } = await params;
+
+    try {
+        if (!(await deleteExperiment(id))) return notFound(id);
+        return NextResponse.json({ deleted: id }, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error: unknown) {
+        return storeError('No se pudo borrar el experimento.', error);
+    }
+}
+
+function notFound(id: string) {
+    return NextResponse.json(
+        { error: `No existe el experimento "${id}".` },
+        { status: 404, headers: { 'Cache-Control': 'no-store' } }
+    );
+}
@@ -0,0 +1,70 @@
+// app/api/experiments/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { badRequest, readJsonBody } from '@/lib/api-request';
+import {
+    createExperiment,
+    EXPERIMENT_STORE_LIMITS,
+    listExperiments,
+    storeError,
+    validateExperimentResult,
+} from '@/lib/experiment-store';
+import type { ActivationFn } from '@/lib/types';
+
+/**
+ * API: /api/experiments
+ *
+ * Historial compartido de experimentos (store de archivos JSON en el servidor).
+ *
+ * - GET: lista de resúmenes, más recientes primero
+ *   filtros opcionales: model=sales | salesAmount | satisfaction | iris | custom | xor | ... y activation=sigmoid | tanh | relu
+ * - POST: guarda un ExperimentResult (el mismo JSON que "Export"),
+ *   directo o como { name, experiment } → 201 con el resumen
+ *
+ * Un experimento concreto: /api/experiments/[id] (GET / DELETE).
+ */
+export async function GET(req: NextRequest) {
+    const { searchParams } = new URL(req.url);
+
+    // Activación permitida (valores desconocidos → sin filtro)
+    const allowedActivations = new Set<ActivationFn>(['sigmoid', 'tanh', 'relu']);
+    const activationParam = searchParams.get('activation') as ActivationFn | null;
+
+    try {
+        const experiments = await listExperiments({
+            model: searchParams.get('model') || undefined,
+            activation: activationParam && allowedActivations.has(activationParam) ? activationParam : undefined,
+        });
+        return NextResponse.json({ experiments }, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error: unknown) {
+        return storeError('No se pudieron listar los experimentos.', error);
+    }
+}
+
+export async function POST(req: NextRequest) {
+    // JSON con límite de tamaño
+    const read = await readJsonBody(req, EXPERIMENT_STORE_LIMITS.maxBytes, 'El experimento');
+    if (read.response) return read.response;
+    const json = read.value;
+
+    // { name, experiment } o el ExperimentResult directo
+    const wrapped =
+        typeof json === 'object' && json !== null && 'experiment' in json
+            ? (json as { name?: unknown; experiment: unknown })
+            : { experiment: json };
+    const parsed = validateExperimentResult(wrapped.experiment);
+    if (!parsed.experiment) return badRequest(parsed.error);
+
+    try {
+        const summary = await createExperiment(
+            parsed.experiment,
+            typeof wrapped.name === 'string' ? wrapped.name : undefined
+        );
+        return NextResponse.json(
+            { experiment: summary },
+            { status: 201, headers: { 'Cache-Control': 'no-store' } }
+        );
+    } catch (error: unknown) {
+        return storeError('No se pudo guardar el experimento.', error);
+    }
+}
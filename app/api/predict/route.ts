@@ -0,0 +1,52 @@
+// app/api/predict/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { badRequest, readJsonBody } from '@/lib/api-request';
+import { parsePredictRequest, predictRows, PREDICT_LIMITS, PREDICT_THRESHOLD } from '@/lib/predict-request';
+
+/**
+ * API: POST /api/predict
+ *
+ * Predicción por lotes con un modelo ya entrenado (sin volver a entrenar).
+ *
+ * Body (JSON):
+ * - { experiment: ExperimentResult, inputs: number[][] }
+ *   → usa la red completa (result.layers) y el scaler del entrenamiento
+ * - { weights: number[], bias: number, activation?: 'sigmoid' | 'tanh' | 'relu' | 'linear', scaler?, inputs }
+ *   → una sola neurona
+ *
+ * Respuesta: { threshold, predictions: [{ input, z, yHat, predictedClass }] }
+ * (con salida lineal —regresión— no hay predictedClass: yHat es el valor predicho)
+ * Errores de validación → 400 con { error } (mismo formato que /api/train).
+ */
+export async function POST(req: NextRequest) {
+    // JSON con límite de tamaño
+    const read = await readJsonBody(req, PREDICT_LIMITS.maxBytes, 'El body');
+    if (read.response) return read.response;
+
+    const parsed = parsePredictRequest(read.value);
+    if (!parsed.model) return badRequest(parsed.error);
+
+    try {
+        const predictions = predictRows(parsed.model, parsed.inputs);
+
+        return NextResponse.json(
+            { threshold: PREDICT_THRESHOLD, predictions },
+            {
+                // Evita caching accidental (importante en demos)
+                headers: { 'Cache-Control': 'no-store' },
+            }
+        );
+    } catch (error: unknown) {
+        if (error instanceof Error) {
+            console.error('Error al predecir:', error.message);
+        } else {
+            console.error('Error desconocido durante la predicción:', error);
+        }
+
+        return NextResponse.json(
+            { error: 'Error durante la predicción.' },
+            { status: 500, headers: { 'Cache-Control': 'no-store' } }
+        );
+    }
+}
\ No newline at end of file
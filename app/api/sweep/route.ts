@@ -0,0 +1,81 @@
+// app/api/sweep/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { badRequest, readDatasetBody } from '@/lib/api-request';
+import { parseSweepRuns, runSweep } from '@/lib/sweep-request';
+import { resolveQueryDataset } from '@/lib/train-request';
+import type { Dataset, ExperimentConfig } from '@/lib/types';
+
+/**
+ * API: /api/sweep
+ *
+ * Barrido de hiperparámetros (grid search): entrena todas las combinaciones de
+ * learningRate × activation × epochs × seed y devuelve cada ExperimentResult
+ * ordenado por error final.
+ *
+ * Cada eje acepta una lista o un rango (los demás parámetros, igual que /api/train):
+ * - learningRate=0.01,0.1,1 o learningRate=0.05:0.5:4 (inicio:fin:n)
+ * - activation=sigmoid,tanh o activation=all
+ * - epochs=1000,2000 · seed=1:5:5
+ *
+ * Respuesta: { model, runs: [{ rank, learningRate, activation, epochs, seed, finalError, experiment }] }
+ * Grid demasiado grande (combinaciones o épocas × filas × parámetros) o mal formado → 400 con { error }.
+ */
+export async function GET(req: NextRequest) {
+    const { searchParams } = new URL(req.url);
+    const { model, dataset, testInput, extraConfig } = resolveQueryDataset(searchParams);
+
+    return sweepAndRespond(model, dataset, searchParams, testInput, extraConfig);
+}
+
+/**
+ * POST /api/sweep
+ *
+ * Igual que GET sobre un dataset del usuario (mismo body que POST /api/train).
+ */
+export async function POST(req: NextRequest) {
+    const { searchParams } = new URL(req.url);
+
+    // CSV directo o JSON ({ X, y } / { csv }), con límite de tamaño
+    const read = await readDatasetBody(req, searchParams);
+    if (read.response) return read.response;
+
+    return sweepAndRespond('custom', read.value, searchParams, undefined, { dataset: read.value });
+}
+
+/**
+ * Expande el grid, entrena y arma la respuesta común de GET/POST.
+ */
+function sweepAndRespond(
+    model: ExperimentConfig['model'],
+    dataset: Dataset,
+    searchParams: URLSearchParams,
+    testInput?: number[],
+    extraConfig?: Partial<ExperimentConfig>
+) {
+    const parsed = parseSweepRuns(searchParams, dataset.X.length, dataset.X[0]?.length ?? 0);
+    if (!parsed.runs) return badRequest(parsed.error);
+
+    try {
+        const runs = runSweep(model, dataset, parsed.runs, testInput, extraConfig);
+
+        return NextResponse.json(
+            { model, runs },
+            {
+                // Evita caching accidental (importante en demos)
+                headers: { 'Cache-Control': 'no-store' },
+            }
+        );
+    } catch (error: unknown) {
+        if (error instanceof Error) {
+            console.error('Error en el barrido de hiperparámetros:', error.message);
+        } else {
+            console.error('Error desconocido durante el barrido:', error);
+        }
+
+        return NextResponse.json(
+            { error: 'Error durante el barrido de hiperparámetros.' },
+            { status: 500, headers: { 'Cache-Control': 'no-store' } }
+        );
+    }
+}
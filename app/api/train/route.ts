@@ -1,9 +1,9 @@
 // app/api/train/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { trainSatisfaction } from '@/lib/nn-satisfaction';
-import { trainSales } from '@/lib/nn-sales';
-import type { ActivationFn, ExperimentConfig, ExperimentResult, TrainMeta } from '@/lib/types';
+import { readDatasetBody } from '@/lib/api-request';
+import { parseTrainParams, resolveQueryDataset, runExperiment } from '@/lib/train-request';
+import type { Dataset, ExperimentConfig } from '@/lib/types';
 
 /**
  * API: /api/train
@@ -16,94 +16,76 @@ import type { ActivationFn, ExperimentConfig, ExperimentResult, TrainMeta } from
  * - soporte de activation: sigmoid | tanh | relu
  * - respuesta "modo laboratorio" (experiment: { config, meta, result })
  * - mantiene compatibilidad con el response anterior (model/hyperparameters/result)
+ * - capas ocultas (MLP): layers=4,3 o layers=4:tanh,3:relu
+ * - función de pérdida: loss=mse | bce | cce (bce usa siempre salida sigmoid)
+ * - batching: batchSize=1 (SGD) | k (mini-batch) | full, y shuffle=true
+ * - optimizador: optimizer=sgd | momentum | nesterov | rmsprop | adam
+ *   (+ momentum, beta1, beta2, epsilon)
+ * - schedule de learning rate: schedule=constant | step | exponential | cosine | warmup
+ *   (+ gamma, stepSize, minLearningRate, warmupEpochs)
+ * - normalización de entradas: normalization=none | minmax | zscore
+ *   (el scaler ajustado vuelve en result.scaler)
+ * - split train/validación: validation=none | holdout | kfold
+ *   (+ valRatio, folds, fold, splitSeed); history incluye valError/valAccuracy
+ * - POST con dataset propio (CSV o JSON) en el body
+ * - datasets sintéticos: model=xor | moons | circles | spirals | blobs (+ n, noise, dataSeed)
+ * - progreso en streaming (NDJSON): /api/train/stream con los mismos parámetros
+ * - barrido de hiperparámetros (grid search): /api/sweep
+ * - early stopping por meseta: patience (+ minDelta); la divergencia (NaN/Infinity
+ *   o error que explota) siempre detiene el entrenamiento → hyperparameters.stoppedEpoch/stopReason
+ * - explicación viva: result.insights (un TrainingInsight por punto de history)
+ * - multi-clase: model=iris (3 clases) o dataset propio con etiquetas 0..K-1 / one-hot;
+ *   salida softmax + cce → result.probabilities y result.multiclassMetrics
+ * - regresión: task=regression (o model=salesAmount) con loss=mse | mae | huber;
+ *   salida lineal (identidad) → result.regressionMetrics (R², MAE, RMSE)
  */
 export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
 
     // --- Validación y saneamiento de parámetros ---
+    // Modelo permitido → dataset (incluido o sintético) y punto de prueba
+    const { model, dataset, testInput, extraConfig } = resolveQueryDataset(searchParams);
 
-    // Modelo permitido (evita valores arbitrarios)
-    const allowedModels = new Set(['sales', 'satisfaction']);
-    const modelParam = searchParams.get('model');
-    const model = allowedModels.has(modelParam || '')
-        ? (modelParam as 'sales' | 'satisfaction')
-        : 'satisfaction';
+    return trainAndRespond(model, dataset, searchParams, testInput, extraConfig);
+}
 
-    // Activación permitida
-    const allowedActivations = new Set<ActivationFn>(['sigmoid', 'tanh', 'relu']);
-    const activationParam = (searchParams.get('activation') || 'sigmoid') as ActivationFn;
-    const activation: ActivationFn = allowedActivations.has(activationParam)
-        ? activationParam
-        : 'sigmoid';
-
-    // Epochs: límites razonables para UX (evita bloquear la UI)
-    const epochsRaw = parseInt(searchParams.get('epochs') || '2000', 10);
-    const epochs = Number.isFinite(epochsRaw) ? Math.min(Math.max(1, epochsRaw), 50_000) : 2000;
-
-    // Learning rate: debe ser positivo y finito
-    const learningRateRaw = parseFloat(searchParams.get('learningRate') || '0.01');
-    const learningRate =
-        Number.isFinite(learningRateRaw) && learningRateRaw > 0 ? learningRateRaw : 0.01;
-
-    // Seed opcional para reproducibilidad (si no es válido, se ignora)
-    const seedRaw = searchParams.get('seed');
-    const seed =
-        seedRaw !== null && !Number.isNaN(parseInt(seedRaw, 10)) ? parseInt(seedRaw, 10) : undefined;
+/**
+ * POST /api/train
+ *
+ * Entrena sobre un dataset del usuario. Los hiperparámetros van en la query
+ * string (igual que en GET) y el dataset en el body:
+ * - text/csv: una fila por sample, última columna = etiqueta 0/1 (cabecera opcional);
+ *   con task=regression, la última columna es el valor objetivo
+ * - application/json: { X: number[][], y: number[] } o { csv: string }
+ *
+ * Errores de validación → 400 con { error } (mensaje pensado para el alumno).
+ */
+export async function POST(req: NextRequest) {
+    const { searchParams } = new URL(req.url);
 
-    // Control de densidad del history (ideal para sliders y animaciones)
-    // Ej: ~200 puntos máximo en la gráfica
-    const logEvery = Math.max(1, Math.floor(epochs / 200));
+    // CSV directo o JSON ({ X, y } / { csv }), con límite de tamaño
+    const read = await readDatasetBody(req, searchParams);
+    if (read.response) return read.response;
 
-    // Config del experimento (para export/import, A/B, etc.)
-    const config: ExperimentConfig = {
-        model,
-        epochs,
-        learningRate,
-        activation,
-        seed,
-    };
+    // El dataset viaja en la config para que el experimento sea exportable/repetible
+    return trainAndRespond('custom', read.value, searchParams, undefined, { dataset: read.value });
+}
 
-    // Meta del experimento (lo que realmente se usó)
-    const meta: TrainMeta = {
-        epochs,
-        learningRate,
-        activation,
-        seed,
-        logEvery,
-    };
+/**
+ * Entrena y arma la respuesta común de GET/POST.
+ */
+function trainAndRespond(
+    model: ExperimentConfig['model'],
+    dataset: Dataset,
+    searchParams: URLSearchParams,
+    testInput?: number[],
+    extraConfig?: Partial<ExperimentConfig>
+) {
+    const params = parseTrainParams(searchParams, dataset.X.length);
 
     try {
-        let result;
-
         // --- Entrenamiento según el modelo seleccionado ---
-        switch (model) {
-            case 'sales':
-                result = trainSales({
-                    epochs,
-                    learningRate,
-                    seed,
-                    logEvery,
-                    activation,
-                });
-                break;
-
-            case 'satisfaction':
-            default:
-                result = trainSatisfaction({
-                    epochs,
-                    learningRate,
-                    seed,
-                    logEvery,
-                    activation,
-                });
-                break;
-        }
-
-        const experiment: ExperimentResult = {
-            config,
-            meta,
-            result,
-        };
+        const experiment = runExperiment(model, dataset, params, testInput, extraConfig);
 
         // --- Respuesta enriquecida (didáctica) ---
         // Mantiene compatibilidad con la UI existente:
@@ -113,14 +95,8 @@ export async function GET(req: NextRequest) {
             {
                 // ✅ Compatibilidad con tu page.tsx actual
                 model,
-                hyperparameters: {
-                    epochs,
-                    learningRate,
-                    activation,
-                    seed,
-                    logEvery,
-                },
-                result,
+                hyperparameters: experiment.meta,
+                result: experiment.result,
 
                 // ✅ Nuevo: “modo laboratorio”
                 experiment,
@@ -142,4 +118,4 @@ export async function GET(req: NextRequest) {
             { status: 500, headers: { 'Cache-Control': 'no-store' } }
         );
     }
-}
\ No newline at end of file
+}
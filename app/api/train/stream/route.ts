@@ -0,0 +1,114 @@
+// app/api/train/stream/route.ts
+
+import { NextRequest } from 'next/server';
+import { readDatasetBody } from '@/lib/api-request';
+import { effectiveTrainParams, experimentSteps, parseTrainParams, resolveQueryDataset } from '@/lib/train-request';
+import type { Dataset, ExperimentConfig, TrainStreamEvent } from '@/lib/types';
+
+/**
+ * API: /api/train/stream
+ *
+ * Igual que /api/train (mismos parámetros, GET o POST con dataset propio),
+ * pero responde en streaming NDJSON: una línea JSON por evento (TrainStreamEvent).
+ *
+ *   {"type":"meta",...}   hiperparámetros efectivos
+ *   {"type":"point",...}  cada TrainingPoint en cuanto se registra
+ *   {"type":"done",...}   ExperimentResult completo
+ *
+ * Cancelación: si el cliente aborta la petición, el entrenamiento se detiene
+ * en el siguiente punto registrado.
+ */
+export async function GET(req: NextRequest) {
+    const { searchParams } = new URL(req.url);
+    const { model, dataset, testInput, extraConfig } = resolveQueryDataset(searchParams);
+
+    return streamTraining(req.signal, model, dataset, searchParams, testInput, extraConfig);
+}
+
+export async function POST(req: NextRequest) {
+    const { searchParams } = new URL(req.url);
+
+    // CSV directo o JSON ({ X, y } / { csv }), con límite de tamaño
+    const read = await readDatasetBody(req, searchParams);
+    if (read.response) return read.response;
+
+    return streamTraining(req.signal, 'custom', read.value, searchParams, undefined, { dataset: read.value });
+}
+
+/** Cada cuánto (ms) se cede el event loop aunque no haya punto nuevo. */
+const YIELD_EVERY_MS = 50;
+
+/**
+ * Recorre el entrenamiento época a época y escribe cada punto en el stream.
+ * Tras cada punto (o cada YIELD_EVERY_MS) se cede el event loop: así el chunk
+ * sale al cliente y se detecta el abort (el generador simplemente deja de avanzar).
+ */
+function streamTraining(
+    signal: AbortSignal,
+    model: ExperimentConfig['model'],
+    dataset: Dataset,
+    searchParams: URLSearchParams,
+    testInput?: number[],
+    extraConfig?: Partial<ExperimentConfig>
+) {
+    const params = parseTrainParams(searchParams, dataset.X.length);
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    const aborted = () => cancelled || signal.aborted;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: TrainStreamEvent) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+
+            try {
+                // Meta con los parámetros ya asentados (p. ej. cce forzada con más de 2 clases)
+                send({ type: 'meta', model, hyperparameters: effectiveTrainParams(dataset, params) });
+
+                const steps = experimentSteps(model, dataset, params, testInput, extraConfig);
+                let lastYield = Date.now();
+                let step = steps.next();
+                while (!step.done) {
+                    if (step.value) send({ type: 'point', point: step.value });
+
+                    if (step.value || Date.now() - lastYield > YIELD_EVERY_MS) {
+                        await new Promise((resolve) => setTimeout(resolve, 0));
+                        lastYield = Date.now();
+                        if (aborted()) return;
+                    }
+                    step = steps.next();
+                }
+
+                send({ type: 'done', experiment: step.value });
+            } catch (error: unknown) {
+                if (aborted()) return; // el cliente ya no escucha
+
+                if (error instanceof Error) {
+                    console.error('Error al entrenar el modelo:', error.message);
+                } else {
+                    console.error('Error desconocido durante el entrenamiento:', error);
+                }
+                send({ type: 'error', error: 'Error durante el entrenamiento del modelo.' });
+            } finally {
+                if (!cancelled) {
+                    try {
+                        controller.close();
+                    } catch {
+                        // stream ya cerrado por el cliente
+                    }
+                }
+            }
+        },
+        cancel() {
+            cancelled = true;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
+            // Evita caching accidental y buffering de proxies
+            'Cache-Control': 'no-store',
+            'X-Accel-Buffering': 'no',
+        },
+    });
+}
@@ -9,31 +9,64 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer,
 } from 'recharts';
 
 import type {
   ActivationFn,
+  ClassificationMetrics,
+  EarlyStoppingConfig,
+  ExperimentComparison,
   ExperimentResult,
+  ExperimentSummary,
+  GradientSnapshot,
+  HiddenLayerConfig,
+  InsightKind,
+  LayerParams,
+  LayerWeights,
+  LossFn,
+  LossLandscape,
+  LrScheduleConfig,
+  LrScheduleName,
+  MulticlassMetrics,
+  NormalizationName,
+  OptimizerConfig,
+  OptimizerName,
+  RegressionMetrics,
+  Scaler,
+  SyntheticDatasetName,
+  StoredExperiment,
+  SweepRun,
+  StopReason,
+  SyntheticDatasetOptions,
+  TaskType,
   TrainingPoint,
+  TrainMeta,
   TrainingResult,
+  TrainStreamEvent,
+  TrainWorkerRequest,
+  ValidationMethod,
+  ValidationSplitConfig,
 } from '@/lib/types';
 
-import { getSalesDataset } from '@/lib/nn-sales';
+import { argmax, forwardNetwork, numClasses } from '@/lib/nn-engine';
+import { landscapeRange, landscapeSetup, lossLandscape } from '@/lib/nn-landscape';
+import { applyScaler } from '@/lib/nn-preprocessing';
+import { parseCsvDataset, validateDataset } from '@/lib/dataset-upload';
+import { TRAIN_LIMITS } from '@/lib/train-request';
+import { generateDataset, SYNTHETIC_DATASETS, SYNTHETIC_LIMITS } from '@/lib/dataset-generators';
+
+import { getSalesAmountDataset, getSalesDataset } from '@/lib/nn-sales';
 import { getSatisfactionDataset } from '@/lib/nn-satisfaction';
+import { getIrisDataset, IRIS_CLASSES } from '@/lib/nn-iris';
 
-type ModelKey = 'satisfaction' | 'sales';
+type ModelKey = 'satisfaction' | 'sales' | 'salesAmount' | 'iris' | 'custom' | SyntheticDatasetName;
 type TabKey = 'resultados' | 'visualizacion' | 'explicacion';
 
 type TrainApiResponse = {
   model: ModelKey;
-  hyperparameters: {
-    epochs: number;
-    learningRate: number;
-    activation: ActivationFn;
-    seed?: number;
-    logEvery: number;
-  };
+  hyperparameters: TrainMeta; // incluye stoppedEpoch / stopReason
   result: TrainingResult;
   experiment?: ExperimentResult; // nuevo (modo laboratorio)
 };
@@ -44,24 +77,237 @@ const activationForward = (z: number, fn: ActivationFn) => {
       return Math.tanh(z);
     case 'relu':
       return z > 0 ? z : 0;
+    case 'linear':
+      return z;
     case 'sigmoid':
     default:
       return 1 / (1 + Math.exp(-z));
   }
 };
 
+/**
+ * z tal que f(z) = ŷ (para dibujar el umbral en el espacio de z).
+ * null si ŷ está fuera del rango de la activación (el umbral nunca se alcanza).
+ */
+const activationInverse = (yHat: number, fn: ActivationFn): number | null => {
+  switch (fn) {
+    case 'tanh':
+      return Math.abs(yHat) < 1 ? Math.atanh(yHat) : null;
+    case 'relu':
+      return yHat > 0 ? yHat : null;
+    case 'linear':
+      return yHat;
+    case 'sigmoid':
+    default:
+      return yHat > 0 && yHat < 1 ? Math.log(yHat / (1 - yHat)) : null;
+  }
+};
+
+/** Curvas de nivel ↔ texto del input ("0.1,0.3,0.7,0.9"); máximo 9 niveles. */
+const parseContourLevels = (spec: string) =>
+  spec
+    .split(',')
+    .map((part) => parseFloat(part))
+    .filter(Number.isFinite)
+    .slice(0, 9);
+
 /** Evita líneas gigantes si el peso crece mucho (mejor UX para el visual). */
 const clampStrokeWidth = (w: number) => {
   const base = Math.abs(w) * 4;
   return Math.min(10, Math.max(1.5, base));
 };
 
+/** Capas ocultas ↔ texto del input ("4:tanh,3:relu") */
+const formatLayers = (layers?: HiddenLayerConfig[]) =>
+  (layers ?? []).map((l) => `${l.units}:${l.activation}`).join(',');
+
+/**
+ * Activación entrenada según el meta: con capas ocultas, la oculta y (si difiere) la de salida;
+ * con una sola neurona, solo la de salida (p. ej. linear en regresión, softmax en multi-clase).
+ */
+const metaActivationLabel = (meta: TrainMeta) => {
+  const output = meta.outputActivation ?? meta.activation;
+  if (!meta.layers?.length) return output;
+  return output === meta.activation ? output : `${meta.activation} → ${output}`;
+};
+
 type Dataset = { X: [number, number][], y: number[] };
 
-function getDataset(model: ModelKey): Dataset {
+const isSynthetic = (model: ModelKey): model is SyntheticDatasetName =>
+  (SYNTHETIC_DATASETS as string[]).includes(model);
+
+/** Nombres de los generadores en el selector */
+const SYNTHETIC_LABELS: Record<SyntheticDatasetName, string> = {
+  xor: 'XOR',
+  moons: 'Dos lunas',
+  circles: 'Círculos concéntricos',
+  spirals: 'Espirales',
+  blobs: 'Nubes gaussianas',
+};
+
+/**
+ * Dataset del modelo:
+ * - 'custom' usa el dataset subido (si no hay, cae a satisfacción)
+ * - sintéticos: mismo generador (y mismas opciones) que el backend
+ */
+function getDataset(model: ModelKey, custom?: Dataset | null, synthetic?: SyntheticDatasetOptions): Dataset {
+  if (model === 'custom' && custom) return custom;
+  if (isSynthetic(model)) return generateDataset(model, synthetic);
+  if (model === 'iris') return getIrisDataset();
+  if (model === 'salesAmount') return getSalesAmountDataset();
   return model === 'sales' ? getSalesDataset() : getSatisfactionDataset();
 }
 
+/**
+ * Tarea de cada modelo: el ejercicio de importe de ventas es regresión,
+ * el dataset propio usa la tarea elegida al subirlo y el resto clasifica.
+ */
+const taskFor = (model: ModelKey, customTask: TaskType): TaskType =>
+  model === 'salesAmount' ? 'regression' : model === 'custom' ? customTask : 'classification';
+
+/** Pérdidas válidas por tarea: al cambiar de tarea la pérdida cae a MSE si no aplica. */
+const REGRESSION_LOSSES: LossFn[] = ['mse', 'mae', 'huber'];
+const lossForTask = (loss: LossFn, task: TaskType): LossFn =>
+  REGRESSION_LOSSES.includes(loss) === (task === 'regression') ? loss : 'mse';
+
+/** Parámetros de una corrida (lo que la UI manda a /api/train). */
+type TrainRequestParams = {
+  model: ModelKey;
+  epochs: number;
+  learningRate: number;
+  activation: ActivationFn;
+  layers?: string;
+  loss?: LossFn;
+  task?: TaskType;
+  batchSize?: string;
+  shuffle?: boolean;
+  optimizer?: OptimizerConfig;
+  lrSchedule?: LrScheduleConfig;
+  normalization?: NormalizationName;
+  validation?: ValidationSplitConfig;
+  earlyStopping?: EarlyStoppingConfig;
+  seed?: number;
+
+  /** Solo model = 'custom': se envía por POST en el body */
+  dataset?: Dataset;
+
+  /** Solo datasets sintéticos: n, noise, dataSeed */
+  synthetic?: SyntheticDatasetOptions;
+};
+
+/**
+ * Config propia de cada corrida en el modo comparación (se copia del panel al añadirla).
+ * Solo el early stopping y las opciones de los sintéticos son comunes.
+ */
+type CompareRunConfig = {
+  model: ModelKey;
+  epochs: number;
+  learningRate: number;
+  activation: ActivationFn;
+  loss: LossFn;
+  layers: string;
+  seed: number | null; // null = sin seed
+  batchSize: string;
+  shuffle: boolean;
+  optimizer: OptimizerConfig;
+  lrSchedule: LrScheduleConfig;
+  normalization: NormalizationName;
+  validation: ValidationSplitConfig;
+};
+
+/** Motivo de la parada anticipada, para el alumno. */
+const STOP_REASON_LABELS: Record<StopReason, string> = {
+  completed: 'se completaron todas las épocas.',
+  nonFinite: 'aparecieron NaN/Infinity (se conservan los últimos pesos finitos). Baja el learning rate o normaliza.',
+  exploding:
+    'el error explotó (divergencia; se conservan los últimos pesos sanos). Baja el learning rate o normaliza las entradas.',
+  plateau: 'early stopping, el error dejó de mejorar.',
+};
+
+/** Nombre corto de cada fenómeno de la explicación viva. */
+const INSIGHT_LABELS: Record<InsightKind, string> = {
+  start: 'inicio',
+  learning: 'aprendiendo',
+  converged: 'convergió',
+  plateau: 'meseta',
+  oscillation: 'oscilación',
+  divergence: 'divergencia',
+  saturation: 'saturación',
+  deadRelu: 'ReLU muertas',
+};
+
+const MAX_COMPARE_RUNS = 6;
+const COMPARE_COLORS = ['#A31F34', '#2563EB', '#059669', '#D97706', '#7C3AED', '#0891B2'];
+const compareColor = (index: number) => COMPARE_COLORS[index % COMPARE_COLORS.length];
+
+/** Color de cada clase (0 rojo y 1 verde, como en binario); hasta 10 clases. */
+const CLASS_COLORS = [
+  '#DC2626',
+  '#16A34A',
+  '#2563EB',
+  '#D97706',
+  '#7C3AED',
+  '#0891B2',
+  '#DB2777',
+  '#65A30D',
+  '#4B5563',
+  '#92400E',
+];
+const classColor = (label: number) => CLASS_COLORS[label % CLASS_COLORS.length];
+
+/** Query string + init de fetch para /api/train (GET) o POST con dataset propio. */
+function buildTrainRequest(params: TrainRequestParams): { query: string; init: RequestInit } {
+  const qs = new URLSearchParams({
+    model: params.model,
+    epochs: String(params.epochs),
+    learningRate: String(params.learningRate),
+    activation: params.activation,
+  });
+  if (params.layers) qs.set('layers', params.layers);
+  if (params.loss) qs.set('loss', params.loss);
+  if (params.task === 'regression') qs.set('task', params.task);
+  if (params.batchSize) qs.set('batchSize', params.batchSize);
+  if (params.shuffle) qs.set('shuffle', 'true');
+  if (params.optimizer) {
+    const { name, ...hyper } = params.optimizer;
+    qs.set('optimizer', name);
+    Object.entries(hyper).forEach(([k, v]) => v !== undefined && qs.set(k, String(v)));
+  }
+  if (params.lrSchedule) {
+    const { name, ...rest } = params.lrSchedule;
+    qs.set('schedule', name);
+    Object.entries(rest).forEach(([k, v]) => v !== undefined && qs.set(k, String(v)));
+  }
+  if (params.normalization && params.normalization !== 'none') qs.set('normalization', params.normalization);
+  if (params.validation && params.validation.method !== 'none') {
+    const { method, ratio, folds, fold } = params.validation;
+    qs.set('validation', method);
+    if (ratio !== undefined) qs.set('valRatio', String(ratio));
+    if (folds !== undefined) qs.set('folds', String(folds));
+    if (fold !== undefined) qs.set('fold', String(fold));
+  }
+  if (params.earlyStopping) {
+    qs.set('patience', String(params.earlyStopping.patience));
+    qs.set('minDelta', String(params.earlyStopping.minDelta));
+  }
+  if (params.seed !== undefined) qs.set('seed', String(params.seed));
+  if (isSynthetic(params.model) && params.synthetic) {
+    Object.entries(params.synthetic).forEach(([k, v]) => qs.set(k, String(v)));
+  }
+
+  const init: RequestInit =
+    params.model === 'custom' && params.dataset
+      ? {
+          method: 'POST',
+          cache: 'no-store',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params.dataset),
+        }
+      : { cache: 'no-store' };
+
+  return { query: qs.toString(), init };
+}
+
 /** Mapea de “espacio de datos” a “espacio SVG” */
 function makeScaler(domainMin: number, domainMax: number, rangeMin: number, rangeMax: number) {
   const denom = domainMax - domainMin || 1;
@@ -89,27 +335,103 @@ export default function Home() {
   const [weights, setWeights] = useState<number[]>([]);
   const [bias, setBias] = useState<number>(0);
 
-  // === Estado comparación A/B ===
+  // === Estado comparación (N corridas) ===
   const [compareMode, setCompareMode] = useState(false);
-  const [leftRun, setLeftRun] = useState<ExperimentResult | null>(null);
-  const [rightRun, setRightRun] = useState<ExperimentResult | null>(null);
+  const [compareConfigs, setCompareConfigs] = useState<CompareRunConfig[]>([]);
+  const [comparison, setComparison] = useState<ExperimentComparison | null>(null);
+
+  // === Estado barrido (grid search, /api/sweep) ===
+  const [sweepMode, setSweepMode] = useState(false);
+  const [sweepLearningRates, setSweepLearningRates] = useState('0.01,0.05,0.1,0.5,1');
+  const [sweepActivations, setSweepActivations] = useState<ActivationFn[]>(['sigmoid', 'tanh', 'relu']);
+  const [sweepEpochs, setSweepEpochs] = useState('');
+  const [sweepSeeds, setSweepSeeds] = useState('');
+  const [sweepRuns, setSweepRuns] = useState<SweepRun[]>([]);
+  const [sweepError, setSweepError] = useState<string | null>(null);
 
   const [model, setModel] = useState<ModelKey>('satisfaction');
+
+  // Dataset propio (CSV/JSON subido por el usuario) y su tarea (la etiqueta es clase o valor continuo)
+  const [customDataset, setCustomDataset] = useState<Dataset | null>(null);
+  const [customTask, setCustomTask] = useState<TaskType>('classification');
+  const task = taskFor(model, customTask);
+  const isRegression = task === 'regression';
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Datasets sintéticos (dataSeed independiente de la seed de entrenamiento)
+  const [sampleCount, setSampleCount] = useState(200);
+  const [noise, setNoise] = useState(0.1);
+  const [dataSeed, setDataSeed] = useState(0);
+  const synthetic = useMemo<SyntheticDatasetOptions>(
+    () => ({ n: sampleCount, noise, dataSeed }),
+    [sampleCount, noise, dataSeed]
+  );
   const [loading, setLoading] = useState(false);
 
   // Hiperparámetros base
   const [epochs, setEpochs] = useState(10_000);
   const [learningRate, setLearningRate] = useState(0.01);
   const [activation, setActivation] = useState<ActivationFn>('sigmoid');
+  const [loss, setLoss] = useState<LossFn>('mse');
+
+  // Batching: "1" = SGD, "k" = mini-batch, "full" = full-batch
+  const [batchSize, setBatchSize] = useState('1');
+  const [shuffle, setShuffle] = useState(false);
+
+  // Optimizador + hiperparámetros (solo se envían los que aplican)
+  const [optimizerName, setOptimizerName] = useState<OptimizerName>('sgd');
+  const [momentum, setMomentum] = useState(0.9);
+  const [beta1, setBeta1] = useState(0.9);
+  const [beta2, setBeta2] = useState(0.999);
+  const optimizer: OptimizerConfig = {
+    name: optimizerName,
+    ...(optimizerName === 'momentum' || optimizerName === 'nesterov' ? { momentum } : {}),
+    ...(optimizerName === 'adam' ? { beta1 } : {}),
+    ...(optimizerName === 'rmsprop' || optimizerName === 'adam' ? { beta2 } : {}),
+  };
+
+  // Schedule de learning rate (el resto de parámetros usa los defaults del backend)
+  const [scheduleName, setScheduleName] = useState<LrScheduleName>('constant');
+  const [gamma, setGamma] = useState(0.5);
+  const [warmupEpochs, setWarmupEpochs] = useState(0);
+  const lrSchedule: LrScheduleConfig = {
+    name: scheduleName,
+    ...(scheduleName === 'step' || scheduleName === 'exponential' ? { gamma } : {}),
+    ...(warmupEpochs > 0 ? { warmupEpochs } : {}),
+  };
+
+  // Capas ocultas (MLP). Vacío = una sola neurona.
+  const [layersSpec, setLayersSpec] = useState('');
+  const [networkLayers, setNetworkLayers] = useState<LayerParams[]>([]);
+  // Multi-clase: salida softmax con una neurona por clase (también se dibuja como red)
+  const isMulticlass = networkLayers.at(-1)?.activation === 'softmax';
+  const isMlp = networkLayers.length > 1 || isMulticlass;
+
+  // Normalización de entradas: el scaler ajustado vuelve en result.scaler
+  const [normalization, setNormalization] = useState<NormalizationName>('none');
+  const [scaler, setScaler] = useState<Scaler | undefined>(undefined);
+
+  // Split train/validación (la seed del split es la del entrenamiento)
+  const [validationMethod, setValidationMethod] = useState<ValidationMethod>('none');
+  const [valRatio, setValRatio] = useState(0.2);
+  const [folds, setFolds] = useState(5);
+  const [fold, setFold] = useState(0);
+  // Early stopping: se para si en `patience` épocas el error no baja al menos `minDelta`
+  const [earlyStoppingOn, setEarlyStoppingOn] = useState(false);
+  const [patience, setPatience] = useState(200);
+  const [minDelta, setMinDelta] = useState(0.00001);
+  const earlyStopping: EarlyStoppingConfig | undefined = earlyStoppingOn ? { patience, minDelta } : undefined;
+
+  const validation: ValidationSplitConfig = {
+    method: validationMethod,
+    ...(validationMethod === 'holdout' ? { ratio: valRatio } : {}),
+    ...(validationMethod === 'kfold' ? { folds, fold: Math.min(fold, folds - 1) } : {}),
+  };
 
   // Seed opcional (reproducibilidad)
   const [useSeed, setUseSeed] = useState(true);
   const [seed, setSeed] = useState(42);
 
-  // Para comparación: LR/activación derecha (A/B)
-  const [learningRateB, setLearningRateB] = useState(0.05);
-  const [activationB, setActivationB] = useState<ActivationFn>('relu');
-
   // Inputs visibles para forward pass (didáctico)
   const [x1, setX1] = useState(1);
   const [x2, setX2] = useState(1);
@@ -119,6 +441,10 @@ export default function Home() {
   const [stepIndex, setStepIndex] = useState(0);
   const [stepMode, setStepMode] = useState(false);
 
+  // Superficie de decisión: umbral de clase (ŷ ≥ umbral → 1) y curvas de nivel de ŷ
+  const [threshold, setThreshold] = useState(0.5);
+  const [contourSpec, setContourSpec] = useState('0.1,0.3,0.7,0.9');
+
   // Timeline controls
   const [playing, setPlaying] = useState(false);
   const [speedMs, setSpeedMs] = useState(80);
@@ -132,9 +458,22 @@ export default function Home() {
   // Último experimento para export/import
   const [lastExperiment, setLastExperiment] = useState<ExperimentResult | null>(null);
 
+  // Experimentos guardados en el servidor (/api/experiments)
+  const [savedExperiments, setSavedExperiments] = useState<ExperimentSummary[]>([]);
+  const [savedFilterModel, setSavedFilterModel] = useState('');
+  const [savedFilterActivation, setSavedFilterActivation] = useState('');
+  const [savedError, setSavedError] = useState<string | null>(null);
+
   // Intervalo para animación / playback (limpieza segura)
   const intervalRef = useRef<number | null>(null);
+
+  // Entrenamiento en streaming (cancelable)
+  const [streaming, setStreaming] = useState(false);
+  // Entrenar en el navegador (Web Worker) en vez de /api/train: funciona offline
+  const [runInBrowser, setRunInBrowser] = useState(false);
+  const streamAbortRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const datasetInputRef = useRef<HTMLInputElement | null>(null);
 
   const clearAnim = () => {
     if (intervalRef.current !== null) {
@@ -161,17 +500,74 @@ export default function Home() {
     }
   }, [currentEpoch]);
 
+  // Red del punto del timeline: frontera, neurona y forward pass siguen a stepIndex.
+  // Sin history (p. ej. antes de entrenar) se usa la red final.
+  const outputActivation = networkLayers.at(-1)?.activation ?? (isRegression ? 'linear' : activation);
+  const pointNetwork = useMemo(
+    () =>
+      (point: TrainingPoint | undefined): LayerParams[] | null => {
+        if (point?.layers && point.layers.length === networkLayers.length) {
+          return point.layers.map((layer, l) => ({ ...layer, activation: networkLayers[l].activation }));
+        }
+        if (point?.weights && point.bias !== undefined) {
+          return [{ weights: [point.weights], biases: [point.bias], activation: outputActivation }];
+        }
+        return null;
+      },
+    [networkLayers, outputActivation]
+  );
+  const timelineLayers = useMemo(
+    (): LayerParams[] =>
+      pointNetwork(currentPoint) ??
+      (isMlp ? networkLayers : [{ weights: [weights], biases: [bias], activation: outputActivation }]),
+    [pointNetwork, currentPoint, isMlp, networkLayers, weights, bias, outputActivation]
+  );
+  const timelineWeights = timelineLayers.at(-1)?.weights[0] ?? weights;
+  const timelineBias = timelineLayers.at(-1)?.biases[0] ?? bias;
+
+  // Estela de fronteras anteriores (hasta 6 snapshots repartidos entre el inicio y el punto actual)
+  const boundaryTrail = useMemo(() => {
+    const previous = displayedData.slice(0, -1);
+    const count = Math.min(6, previous.length);
+    return Array.from({ length: count }, (_, k) =>
+      pointNetwork(previous[Math.floor((k * previous.length) / count)])
+    ).filter((net): net is LayerParams[] => net !== null);
+  }, [displayedData, pointNetwork]);
+
   // Forward pass coherente con activación seleccionada (single run)
-  const z = useMemo(() => {
-    const w1 = weights[0] ?? 0;
-    const w2 = weights[1] ?? 0;
-    return x1 * w1 + x2 * w2 + (bias ?? 0);
-  }, [x1, x2, weights, bias]);
+  // En un MLP, z/ŷ son los de la neurona de salida tras recorrer toda la red.
+  // Las entradas pasan por el mismo scaler que el entrenamiento (pesos en espacio normalizado).
+  const scaledInput = useMemo(() => applyScaler(scaler, [x1, x2]), [scaler, x1, x2]);
+
+  const mlpForward = useMemo(
+    () => (isMlp ? forwardNetwork(timelineLayers, scaledInput) : null),
+    [isMlp, timelineLayers, scaledInput]
+  );
 
-  const yHat = useMemo(() => activationForward(z, activation), [z, activation]);
+  const z = useMemo(() => {
+    if (mlpForward) return mlpForward.zs[mlpForward.zs.length - 1][0];
+    const w1 = timelineWeights[0] ?? 0;
+    const w2 = timelineWeights[1] ?? 0;
+    return scaledInput[0] * w1 + scaledInput[1] * w2 + (timelineBias ?? 0);
+  }, [mlpForward, scaledInput, timelineWeights, timelineBias]);
+
+  // ŷ de la salida (multi-clase: probabilidad de la clase 0; el vector completo en outputProbabilities)
+  const yHat = useMemo(() => {
+    if (mlpForward) return mlpForward.activations[mlpForward.activations.length - 1][0];
+    return outputActivation === 'softmax' ? 0 : activationForward(z, outputActivation);
+  }, [mlpForward, z, outputActivation]);
+  const outputProbabilities = isMulticlass ? mlpForward?.activations[mlpForward.activations.length - 1] : undefined;
 
   // Dataset bounds para frontera de decisión
-  const dataset = useMemo(() => getDataset(model), [model]);
+  const dataset = useMemo(
+    () => getDataset(model, customDataset, synthetic),
+    [model, customDataset, synthetic]
+  );
+  const datasetClasses = useMemo(() => numClasses(dataset.y), [dataset]);
+  const classLabel = (label: number) => (model === 'iris' ? IRIS_CLASSES[label] : undefined) ?? `clase ${label}`;
+  const contourLevels = useMemo(() => parseContourLevels(contourSpec), [contourSpec]);
+  const thresholdZ = outputActivation === 'softmax' ? null : activationInverse(threshold, outputActivation);
+
   const bounds = useMemo(() => {
     const xs = dataset.X.map((p) => p[0]);
     const ys = dataset.X.map((p) => p[1]);
@@ -197,26 +593,102 @@ export default function Home() {
   } as const;
 
   // --- Fetch (single run) ---
-  const fetchTrain = async (params: {
-    model: ModelKey;
-    epochs: number;
-    learningRate: number;
-    activation: ActivationFn;
-    seed?: number;
-  }): Promise<TrainApiResponse> => {
-    const qs = new URLSearchParams({
-      model: params.model,
-      epochs: String(params.epochs),
-      learningRate: String(params.learningRate),
-      activation: params.activation,
-    });
-    if (params.seed !== undefined) qs.set('seed', String(params.seed));
+  const fetchTrain = async (params: TrainRequestParams): Promise<TrainApiResponse> => {
+    if (runInBrowser) {
+      // Misma forma que la respuesta de /api/train, armada con los eventos del worker
+      const experiment = await trainInWorker(params, () => undefined);
+      return { model: params.model, hyperparameters: experiment.meta, result: experiment.result, experiment };
+    }
 
-    const res = await fetch(`/api/train?${qs.toString()}`, { cache: 'no-store' });
-    if (!res.ok) throw new Error(`Train API failed: ${res.status}`);
+    const { query, init } = buildTrainRequest(params);
+    const res = await fetch(`/api/train?${query}`, init);
+    if (!res.ok) {
+      const body = (await res.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(body?.error ?? `Train API failed: ${res.status}`);
+    }
     return (await res.json()) as TrainApiResponse;
   };
 
+  // --- Fetch en streaming (NDJSON: un evento por línea) ---
+  const fetchTrainStream = async (
+    params: TrainRequestParams,
+    onEvent: (event: TrainStreamEvent) => void,
+    signal: AbortSignal
+  ) => {
+    const { query, init } = buildTrainRequest(params);
+    const res = await fetch(`/api/train/stream?${query}`, { ...init, signal });
+    if (!res.ok || !res.body) {
+      const body = (await res.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(body?.error ?? `Train API failed: ${res.status}`);
+    }
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        // Solo se procesan líneas completas; el resto espera al siguiente chunk
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.filter(Boolean).forEach((line) => onEvent(JSON.parse(line) as TrainStreamEvent));
+      }
+    } finally {
+      // Si onEvent lanza (evento 'error', JSON roto) se corta la conexión en vez de dejarla colgada
+      reader.cancel().catch(() => undefined);
+    }
+  };
+
+  // --- Entrenamiento en el navegador (Web Worker, mismos eventos que el stream) ---
+  const trainInWorker = (
+    params: TrainRequestParams,
+    onEvent: (event: TrainStreamEvent) => void,
+    signal?: AbortSignal
+  ) =>
+    new Promise<ExperimentResult>((resolve, reject) => {
+      const worker = new Worker(new URL('../lib/train-worker.ts', import.meta.url), { type: 'module' });
+      const finish = () => {
+        worker.terminate();
+        signal?.removeEventListener('abort', onAbort);
+      };
+      // Cancelar = terminar el worker (corta el entrenamiento en el acto)
+      const onAbort = () => {
+        finish();
+        reject(new DOMException('Entrenamiento cancelado.', 'AbortError'));
+      };
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener('abort', onAbort);
+
+      worker.onmessage = (e: MessageEvent<TrainStreamEvent>) => {
+        const event = e.data;
+        try {
+          onEvent(event);
+        } catch (err) {
+          finish();
+          return reject(err);
+        }
+        if (event.type === 'done') {
+          finish();
+          resolve(event.experiment);
+        } else if (event.type === 'error') {
+          finish();
+          reject(new Error(event.error));
+        }
+      };
+      worker.onerror = (e) => {
+        finish();
+        reject(new Error(e.message || 'Error en el worker de entrenamiento.'));
+      };
+
+      const request: TrainWorkerRequest = {
+        query: buildTrainRequest(params).query,
+        dataset: params.model === 'custom' ? params.dataset : undefined,
+      };
+      worker.postMessage(request);
+    });
+
   // =========================
   // Timeline controls (single)
   // =========================
@@ -256,39 +728,88 @@ export default function Home() {
     stopPlayback();
     setLoading(true);
 
-    try {
-      const payload = await fetchTrain({
-        model,
-        epochs,
-        learningRate,
-        activation,
-        seed: useSeed ? seed : undefined,
-      });
-
-      const result = payload.result;
+    // Streaming: cada punto se pinta en cuanto llega; abortar = cancelar el entrenamiento
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    setStreaming(true);
+    setData([]);
+    setDisplayedData([]);
+    setStepIndex(0);
+    setLastExperiment(null); // sus insights ya no corresponden a lo que se pinta
 
-      setTrainMeta(payload.hyperparameters);
-      setData(result.history);
-      setWeights(result.weights);
-      setBias(result.bias);
-      setPrediction(result.prediction);
+    const received: TrainingPoint[] = [];
 
-      // Guardar experimento si viene (modo laboratorio)
-      if (payload.experiment) setLastExperiment(payload.experiment);
+    // Servidor (NDJSON) o navegador (Web Worker): mismos eventos
+    const runStream = runInBrowser ? trainInWorker : fetchTrainStream;
 
-      // Modo “auto”: reproducir timeline
-      setDisplayedData([]);
-      setStepIndex(0);
-      startPlayback(result.history, 0);
+    try {
+      await runStream(
+        {
+          model,
+          epochs,
+          learningRate,
+          activation,
+          layers: layersSpec,
+          loss,
+          task,
+          batchSize,
+          shuffle,
+          optimizer,
+          lrSchedule,
+          normalization,
+          validation,
+          earlyStopping,
+          seed: useSeed ? seed : undefined,
+          dataset,
+          synthetic,
+        },
+        (event) => {
+          switch (event.type) {
+            case 'meta':
+              setTrainMeta(event.hyperparameters);
+              break;
+            case 'point':
+              received.push(event.point);
+              setData([...received]);
+              setDisplayedData([...received]);
+              setStepIndex(received.length - 1);
+              break;
+            case 'done': {
+              const result = event.experiment.result;
+              setData(result.history);
+              setDisplayedData(result.history);
+              setStepIndex(result.history.length - 1);
+              setWeights(result.weights);
+              setBias(result.bias);
+              setNetworkLayers(result.layers ?? []);
+              setScaler(result.scaler);
+              setPrediction(result.prediction);
+
+              // Meta final: incluye la época y el motivo de la parada
+              setTrainMeta(event.experiment.meta);
+
+              // Guardar experimento (modo laboratorio)
+              setLastExperiment(event.experiment);
+              break;
+            }
+            case 'error':
+              throw new Error(event.error);
+          }
+        },
+        controller.signal
+      );
     } catch (err) {
-      console.error(err);
-      setLoading(false);
+      // Cancelado por el usuario: se conserva lo recibido hasta ese momento
+      if (!(err instanceof DOMException && err.name === 'AbortError')) console.error(err);
     } finally {
-      // En playback se apaga al terminar, pero aquí aseguramos no dejar loading pegado si falló.
+      streamAbortRef.current = null;
+      setStreaming(false);
       setLoading(false);
     }
   };
 
+  const handleCancelTraining = () => streamAbortRef.current?.abort();
+
   const handleTrainStepMode = async () => {
     stopPlayback();
     setLoading(true);
@@ -299,7 +820,19 @@ export default function Home() {
         epochs,
         learningRate,
         activation,
+        layers: layersSpec,
+        loss,
+        task,
+        batchSize,
+        shuffle,
+        optimizer,
+        lrSchedule,
+        normalization,
+        validation,
+        earlyStopping,
         seed: useSeed ? seed : undefined,
+        dataset,
+        synthetic,
       });
 
       const result = payload.result;
@@ -312,6 +845,8 @@ export default function Home() {
       setPrediction(result.prediction);
       setWeights(result.weights);
       setBias(result.bias);
+      setNetworkLayers(result.layers ?? []);
+      setScaler(result.scaler);
 
       if (payload.experiment) setLastExperiment(payload.experiment);
     } catch (err) {
@@ -340,6 +875,7 @@ export default function Home() {
   };
 
   const handleReset = () => {
+    streamAbortRef.current?.abort();
     stopPlayback();
     setData([]);
     setDisplayedData([]);
@@ -347,55 +883,120 @@ export default function Home() {
     setPrediction(null);
     setWeights([]);
     setBias(0);
+    setNetworkLayers([]);
+    setScaler(undefined);
     setTrainMeta(null);
     setLastExperiment(null);
-    setLeftRun(null);
-    setRightRun(null);
+    setComparison(null);
   };
 
   // =========================
-  // Comparación A/B
+  // Comparación (N corridas)
   // =========================
+  /** Config de una corrida a partir del panel (para añadirla a la comparación). */
+  const panelRunConfig = (): CompareRunConfig => ({
+    model,
+    epochs,
+    learningRate,
+    activation,
+    loss,
+    layers: layersSpec,
+    seed: useSeed ? seed : null,
+    batchSize,
+    shuffle,
+    optimizer,
+    lrSchedule,
+    normalization,
+    validation,
+  });
+
+  const updateCompareConfig = (index: number, patch: Partial<CompareRunConfig>) =>
+    setCompareConfigs((prev) => prev.map((cfg, i) => (i === index ? { ...cfg, ...patch } : cfg)));
+
   const handleTrainCompare = async () => {
     stopPlayback();
     setLoading(true);
 
     try {
-      const baseSeed = useSeed ? seed : undefined;
+      // Cada corrida con su propia config; early stopping y sintéticos salen del panel
+      const responses = await Promise.all(
+        compareConfigs.map((cfg) =>
+          fetchTrain({
+            model: cfg.model,
+            epochs: cfg.epochs,
+            learningRate: cfg.learningRate,
+            activation: cfg.activation,
+            layers: cfg.layers,
+            loss: cfg.loss,
+            task: taskFor(cfg.model, customTask),
+            batchSize: cfg.batchSize,
+            shuffle: cfg.shuffle,
+            optimizer: cfg.optimizer,
+            lrSchedule: cfg.lrSchedule,
+            normalization: cfg.normalization,
+            validation: cfg.validation,
+            earlyStopping,
+            seed: cfg.seed ?? undefined,
+            dataset: customDataset ?? undefined,
+            synthetic,
+          })
+        )
+      );
+      const runs = responses.map((r) => r.experiment).filter((run): run is ExperimentResult => Boolean(run));
+      setComparison({ runs });
+
+      // El “single run” muestra la primera corrida (panel incluido)
+      if (runs.length > 0) applyExperiment(runs[0]);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const [a, b] = await Promise.all([
-        fetchTrain({
-          model,
-          epochs,
-          learningRate,
-          activation,
-          seed: baseSeed,
-        }),
-        fetchTrain({
-          model,
-          epochs,
-          learningRate: learningRateB,
-          activation: activationB,
-          seed: baseSeed,
-        }),
-      ]);
-
-      // Preferimos el payload.experiment (modo laboratorio)
-      setLeftRun(a.experiment ?? null);
-      setRightRun(b.experiment ?? null);
-
-      // También dejamos el “single run” mostrando A por defecto
-      setTrainMeta(a.hyperparameters);
-      setData(a.result.history);
-      setDisplayedData(a.result.history.slice(0, 1));
-      setWeights(a.result.weights);
-      setBias(a.result.bias);
-      setPrediction(a.result.prediction);
-      setStepIndex(0);
+  // =========================
+  // Barrido de hiperparámetros (grid search)
+  // =========================
+  const handleTrainSweep = async () => {
+    stopPlayback();
+    setLoading(true);
 
-      if (a.experiment) setLastExperiment(a.experiment);
+    try {
+      // Resto de hiperparámetros: los del panel (comunes a todo el grid)
+      const { query, init } = buildTrainRequest({
+        model,
+        epochs,
+        learningRate,
+        activation,
+        layers: layersSpec,
+        loss,
+        task,
+        batchSize,
+        shuffle,
+        optimizer,
+        lrSchedule,
+        normalization,
+        validation,
+        earlyStopping,
+        seed: useSeed ? seed : undefined,
+        dataset,
+        synthetic,
+      });
+      const qs = new URLSearchParams(query);
+      qs.set('learningRate', sweepLearningRates);
+      qs.set('activation', sweepActivations.join(','));
+      if (sweepEpochs.trim()) qs.set('epochs', sweepEpochs.trim());
+      if (sweepSeeds.trim()) qs.set('seed', sweepSeeds.trim());
+
+      const res = await fetch(`/api/sweep?${qs.toString()}`, init);
+      const body = (await res.json()) as { runs?: SweepRun[]; error?: string };
+      if (!res.ok || !body.runs) throw new Error(body.error ?? `Sweep API failed: ${res.status}`);
+
+      setSweepRuns(body.runs);
+      setSweepError(null);
     } catch (err) {
       console.error(err);
+      setSweepError(err instanceof Error ? err.message : 'No se pudo ejecutar el barrido.');
     } finally {
       setLoading(false);
     }
@@ -414,37 +1015,114 @@ export default function Home() {
 
   const handlePickImport = () => fileInputRef.current?.click();
 
-  const handleImportFile: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
+  // =========================
+  // Dataset propio (CSV / JSON)
+  // =========================
+  const handlePickDataset = () => datasetInputRef.current?.click();
+
+  const handleDatasetFile: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     try {
+      // Misma validación que el backend (lib compartida) → feedback inmediato
       const text = await file.text();
-      const parsed = JSON.parse(text) as ExperimentResult;
-
-      // Aplicar al estado (single run)
-      setLastExperiment(parsed);
-      setModel(parsed.config.model);
-      setEpochs(parsed.config.epochs);
-      setLearningRate(parsed.config.learningRate);
-      setActivation(parsed.config.activation);
-      setSeed(parsed.config.seed ?? 42);
-
-      setTrainMeta({
-        epochs: parsed.meta.epochs,
-        learningRate: parsed.meta.learningRate,
-        activation: parsed.meta.activation,
-        seed: parsed.meta.seed,
-        logEvery: parsed.meta.logEvery,
-      });
+      const parsed = file.name.toLowerCase().endsWith('.json')
+        ? validateDataset(JSON.parse(text), customTask)
+        : parseCsvDataset(text, customTask);
 
-      setData(parsed.result.history);
-      setDisplayedData(parsed.result.history.slice(0, 1));
-      setWeights(parsed.result.weights);
-      setBias(parsed.result.bias);
-      setPrediction(parsed.result.prediction);
-      setStepIndex(0);
-      stopPlayback();
+      if (!parsed.dataset) return setUploadError(parsed.error);
+
+      // La API acepta hasta 10 características; la UI dibuja x₁/x₂
+      if (parsed.dataset.X[0].length !== 2) {
+        return setUploadError('La visualización del laboratorio necesita exactamente 2 características (x₁, x₂).');
+      }
+
+      setUploadError(null);
+      setCustomDataset(parsed.dataset as Dataset);
+      setModel('custom');
+      setLoss(lossForTask(loss, customTask));
+      handleReset();
+    } catch (err) {
+      console.error('Dataset upload failed:', err);
+      setUploadError('No se pudo leer el archivo (¿JSON válido?).');
+    } finally {
+      // permitir re-subir el mismo archivo
+      e.target.value = '';
+    }
+  };
+
+  /** Aplica un experimento (importado o guardado) al estado del single run. */
+  const applyExperiment = (parsed: ExperimentResult) => {
+    setLastExperiment(parsed);
+    if (parsed.config.model === 'custom') {
+      if (parsed.config.dataset) setCustomDataset(parsed.config.dataset as Dataset);
+      setCustomTask(parsed.meta.task ?? parsed.config.task ?? 'classification');
+    }
+    if (parsed.config.synthetic) {
+      setSampleCount(parsed.config.synthetic.n);
+      setNoise(parsed.config.synthetic.noise);
+      setDataSeed(parsed.config.synthetic.dataSeed);
+    }
+    setModel(parsed.config.model);
+    setEpochs(parsed.config.epochs);
+    setLearningRate(parsed.config.learningRate);
+    setActivation(parsed.config.activation);
+    setLayersSpec(formatLayers(parsed.config.layers));
+    setLoss(parsed.config.loss ?? 'mse');
+    setBatchSize(
+      (parsed.config.batchSize ?? 1) >=
+        getDataset(
+          parsed.config.model,
+          parsed.config.dataset as Dataset | undefined,
+          parsed.config.synthetic
+        ).X.length
+        ? 'full'
+        : String(parsed.config.batchSize ?? 1)
+    );
+    setShuffle(parsed.config.shuffle ?? false);
+    setOptimizerName(parsed.config.optimizer?.name ?? 'sgd');
+    if (parsed.config.optimizer?.momentum !== undefined) setMomentum(parsed.config.optimizer.momentum);
+    if (parsed.config.optimizer?.beta1 !== undefined) setBeta1(parsed.config.optimizer.beta1);
+    if (parsed.config.optimizer?.beta2 !== undefined) setBeta2(parsed.config.optimizer.beta2);
+    setScheduleName(parsed.config.lrSchedule?.name ?? 'constant');
+    if (parsed.config.lrSchedule?.gamma !== undefined) setGamma(parsed.config.lrSchedule.gamma);
+    setWarmupEpochs(parsed.config.lrSchedule?.warmupEpochs ?? 0);
+    setNormalization(parsed.config.normalization ?? 'none');
+    setValidationMethod(parsed.config.validation?.method ?? 'none');
+    if (parsed.config.validation?.ratio !== undefined) setValRatio(parsed.config.validation.ratio);
+    if (parsed.config.validation?.folds !== undefined) setFolds(parsed.config.validation.folds);
+    setFold(parsed.config.validation?.fold ?? 0);
+    setEarlyStoppingOn(parsed.config.earlyStopping !== undefined);
+    if (parsed.config.earlyStopping) {
+      setPatience(parsed.config.earlyStopping.patience);
+      setMinDelta(parsed.config.earlyStopping.minDelta);
+    }
+    // Sin seed guardada el experimento no era reproducible: se re-entrena igual (seed desactivada)
+    setUseSeed(parsed.config.seed !== undefined);
+    setSeed(parsed.config.seed ?? 42);
+
+    // El meta completo (incluida la tarea): el laboratorio se configura como en el entrenamiento
+    setTrainMeta({ ...parsed.meta });
+
+    setData(parsed.result.history);
+    setDisplayedData(parsed.result.history.slice(0, 1));
+    setWeights(parsed.result.weights);
+    setBias(parsed.result.bias);
+    setNetworkLayers(parsed.result.layers ?? []);
+    setScaler(parsed.result.scaler);
+    setPrediction(parsed.result.prediction);
+    setStepIndex(0);
+    stopPlayback();
+  };
+
+  const handleImportFile: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      applyExperiment(JSON.parse(text) as ExperimentResult);
     } catch (err) {
       console.error('Import failed:', err);
     } finally {
@@ -454,30 +1132,161 @@ export default function Home() {
   };
 
   // =========================
-  // Frontera de decisión 2D
+  // Experimentos guardados (servidor)
+  // =========================
+  const refreshSaved = async () => {
+    const qs = new URLSearchParams();
+    if (savedFilterModel) qs.set('model', savedFilterModel);
+    if (savedFilterActivation) qs.set('activation', savedFilterActivation);
+
+    try {
+      const res = await fetch(`/api/experiments?${qs.toString()}`, { cache: 'no-store' });
+      const body = (await res.json()) as { experiments?: ExperimentSummary[]; error?: string };
+      if (!res.ok) throw new Error(body.error ?? `Experiments API failed: ${res.status}`);
+      setSavedExperiments(body.experiments ?? []);
+      setSavedError(null);
+    } catch (err) {
+      console.error(err);
+      setSavedError(err instanceof Error ? err.message : 'No se pudo cargar la lista.');
+    }
+  };
+
+  // Recargar la lista al cambiar los filtros (y al montar)
+  useEffect(() => {
+    void refreshSaved();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [savedFilterModel, savedFilterActivation]);
+
+  const handleSaveExperiment = async () => {
+    if (!lastExperiment) return;
+    const name = window.prompt(
+      'Nombre del experimento',
+      `${lastExperiment.config.model} · ${lastExperiment.config.activation}`
+    );
+    if (name === null) return;
+
+    try {
+      const res = await fetch('/api/experiments', {
+        method: 'POST',
+        cache: 'no-store',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, experiment: lastExperiment }),
+      });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(body?.error ?? `Experiments API failed: ${res.status}`);
+      }
+      await refreshSaved();
+    } catch (err) {
+      console.error(err);
+      setSavedError(err instanceof Error ? err.message : 'No se pudo guardar.');
+    }
+  };
+
+  const handleLoadSaved = async (id: string) => {
+    try {
+      const res = await fetch(`/api/experiments/${id}`, { cache: 'no-store' });
+      const body = (await res.json()) as StoredExperiment | { error: string };
+      if ('error' in body) throw new Error(body.error);
+      applyExperiment(body.experiment);
+      setSavedError(null);
+    } catch (err) {
+      console.error(err);
+      setSavedError(err instanceof Error ? err.message : 'No se pudo cargar el experimento.');
+    }
+  };
+
+  const handleDeleteSaved = async (id: string) => {
+    if (!window.confirm('¿Borrar este experimento del historial compartido?')) return;
+
+    try {
+      const res = await fetch(`/api/experiments/${id}`, { method: 'DELETE', cache: 'no-store' });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(body?.error ?? `Experiments API failed: ${res.status}`);
+      }
+      await refreshSaved();
+    } catch (err) {
+      console.error(err);
+      setSavedError(err instanceof Error ? err.message : 'No se pudo borrar.');
+    }
+  };
+
+  // =========================
+  // Estado del optimizador (timeline)
   // =========================
-  const decisionLine = useMemo(() => {
-    // w1*x + w2*y + b = 0  => y = (-b - w1*x)/w2
-    const w1 = weights[0] ?? 0;
-    const w2 = weights[1] ?? 0;
-    const bb = bias ?? 0;
-
-    // Si w2 es ~0, la línea es vertical: x = -b/w1
-    if (Math.abs(w2) < 1e-6) {
-      const x = Math.abs(w1) < 1e-6 ? null : -bb / w1;
-      return { verticalX: x, p1: null as null | [number, number], p2: null as null | [number, number] };
+  // Flujo del gradiente: |dL/dθ| por época (escala log → se ve el desvanecimiento)
+  const gradientData = useMemo(
+    () =>
+      displayedData
+        .filter((p) => p.gradients)
+        .map((p) => {
+          const g = p.gradients as GradientSnapshot;
+          const floor = (v: number) => Math.max(Math.abs(v), 1e-12);
+          return {
+            epoch: p.epoch,
+            norm: floor(g.norm),
+            ...(g.layerNorms
+              ? Object.fromEntries(g.layerNorms.map((v, l) => [`layer${l}`, floor(v)]))
+              : Object.fromEntries(g.weights.map((v, i) => [`w${i}`, floor(v)]))),
+            b: floor(g.bias),
+          };
+        }),
+    [displayedData]
+  );
+  const currentGradients = currentPoint?.gradients;
+
+  // Superficie de pérdida L(w₁, w₂) (solo una neurona). El rango sale de toda la
+  // trayectoria (no salta al mover el timeline); bias y demás pesos, del punto actual.
+  // Activación, pérdida, split y scaler son los del entrenamiento (trainMeta), no los del panel.
+  const landscapeRanges = useMemo(() => (isMlp ? null : landscapeRange(data)), [isMlp, data]);
+  const landscapeTrained = useMemo(() => (trainMeta ? landscapeSetup(dataset, trainMeta) : null), [dataset, trainMeta]);
+  const landscape = useMemo(() => {
+    const w = currentPoint?.weights;
+    if (
+      activeTab !== 'visualizacion' ||
+      !landscapeRanges ||
+      !landscapeTrained ||
+      !w ||
+      w.length < 2 ||
+      currentPoint?.bias === undefined
+    ) {
+      return null;
     }
+    const { dataset: trainRows, ...trained } = landscapeTrained;
+    return lossLandscape(trainRows, { ...trained, weights: w, bias: currentPoint.bias, ...landscapeRanges });
+  }, [activeTab, landscapeRanges, landscapeTrained, currentPoint]);
+  const landscapePath = useMemo(
+    () =>
+      displayedData.flatMap((p) =>
+        p.weights && p.weights.length >= 2 ? [[p.weights[0], p.weights[1]] as [number, number]] : []
+      ),
+    [displayedData]
+  );
 
-    const xA = bounds.xMin;
-    const xB = bounds.xMax;
-    const yA = (-bb - w1 * xA) / w2;
-    const yB = (-bb - w1 * xB) / w2;
-    return { verticalX: null as number | null, p1: [xA, yA] as [number, number], p2: [xB, yB] as [number, number] };
-  }, [weights, bias, bounds]);
+  const optimizerSummary = useMemo(() => {
+    // Neurona de salida en la época mostrada: [w₁, w₂, …, b]
+    const state = currentPoint?.optimizer;
+    if (!state || (!state.m && !state.v)) return null;
+
+    const fmt = (moments?: LayerWeights[]) => {
+      const out = moments?.at(-1);
+      return out ? [...out.weights[0], out.biases[0]].map((n) => n.toExponential(2)).join(', ') : '';
+    };
+    return `t=${state.step}${state.m ? ` · m=[${fmt(state.m)}]` : ''}${state.v ? ` · v=[${fmt(state.v)}]` : ''}`;
+  }, [currentPoint]);
 
   // =========================
   // Explicación viva (simple)
   // =========================
+  // Insight del backend para la época visible (lib/nn-insights.ts)
+  const currentInsight = useMemo(() => {
+    const last = displayedData.at(-1);
+    if (!last) return null;
+    return lastExperiment?.result.insights?.find((insight) => insight.epoch === last.epoch) ?? null;
+  }, [displayedData, lastExperiment]);
+
+  // Respaldo (sin insights: streaming en curso o experimentos antiguos importados)
   const liveMessage = useMemo(() => {
     const last = displayedData.at(-1);
     if (!last) return 'Entrena el modelo para ver qué ocurre paso a paso.';
@@ -496,14 +1305,14 @@ export default function Home() {
       }
     }
 
-    // Importancia relativa de pesos
-    const w1 = weights[0] ?? 0;
-    const w2 = weights[1] ?? 0;
+    // Importancia relativa de pesos (en la época mostrada)
+    const w1 = timelineWeights[0] ?? 0;
+    const w2 = timelineWeights[1] ?? 0;
     if (Math.abs(w1) > Math.abs(w2) * 1.5) return 'El modelo está usando más x₁ (|w₁| domina a |w₂|).';
     if (Math.abs(w2) > Math.abs(w1) * 1.5) return 'El modelo está usando más x₂ (|w₂| domina a |w₁|).';
 
     return 'Los pesos están relativamente balanceados: el modelo combina x₁ y x₂.';
-  }, [displayedData, activation, weights]);
+  }, [displayedData, activation, timelineWeights]);
 
   return (
     <main className="h-screen flex flex-col bg-[#F8F7F6] overflow-hidden">
@@ -534,18 +1343,84 @@ export default function Home() {
               <select
                 id="model-select"
                 value={model}
-                onChange={(e) => setModel(e.target.value as ModelKey)}
+                onChange={(e) => {
+                  const next = e.target.value as ModelKey;
+                  setModel(next);
+                  setLoss(lossForTask(loss, taskFor(next, customTask)));
+                }}
+                className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
+              >
+                <ModelOptions customRows={customDataset?.X.length} />
+              </select>
+              {uploadError && <p className="text-xs text-red-600 mt-1">{uploadError}</p>}
+
+              <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="task-select">
+                Tarea del dataset propio (última columna = clase o valor)
+              </label>
+              <select
+                id="task-select"
+                value={customTask}
+                onChange={(e) => {
+                  const next = e.target.value as TaskType;
+                  setCustomTask(next);
+                  // El dataset subido se validó para la otra tarea: hay que volver a subirlo
+                  if (customDataset) {
+                    setCustomDataset(null);
+                    if (model === 'custom') setModel('satisfaction');
+                  }
+                  if (model === 'custom') setLoss(lossForTask(loss, next));
+                }}
                 className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
               >
-                <option value="satisfaction">Satisfacción del Cliente</option>
-                <option value="sales">Predicción de Ventas</option>
+                <option value="classification">Clasificación</option>
+                <option value="regression">Regresión</option>
               </select>
+
+              {isSynthetic(model) && (
+                <>
+                  <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="samples-range">
+                    Muestras: {sampleCount}
+                  </label>
+                  <input
+                    id="samples-range"
+                    type="range"
+                    min={20}
+                    max={SYNTHETIC_LIMITS.maxSamples}
+                    step={20}
+                    value={sampleCount}
+                    onChange={(e) => setSampleCount(Number(e.target.value))}
+                    className="w-full accent-[#A31F34]"
+                  />
+
+                  <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="noise-range">
+                    Ruido: {noise.toFixed(2)}
+                  </label>
+                  <input
+                    id="noise-range"
+                    type="range"
+                    min={0}
+                    max={SYNTHETIC_LIMITS.maxNoise}
+                    step={0.01}
+                    value={noise}
+                    onChange={(e) => setNoise(Number(e.target.value))}
+                    className="w-full accent-[#A31F34]"
+                  />
+
+                  <button
+                    type="button"
+                    onClick={() => setDataSeed((s) => s + 1)}
+                    className="mt-2 text-xs text-[#A31F34] underline"
+                  >
+                    🎲 Regenerar puntos (dataSeed {dataSeed})
+                  </button>
+                </>
+              )}
             </div>
 
             {/* Activación */}
             <div>
               <label className="block text-xs uppercase text-black mb-1" htmlFor="activation-select">
-                Activación (A)
+                Activación
               </label>
               <select
                 id="activation-select"
@@ -559,53 +1434,647 @@ export default function Home() {
               </select>
             </div>
 
-            {/* Compare mode toggle */}
-            <div className="flex items-center gap-2 mt-2">
-              <input
-                id="compare-mode"
-                type="checkbox"
-                checked={compareMode}
-                onChange={() => setCompareMode(!compareMode)}
-                className="accent-[#A31F34] w-4 h-4"
-              />
-              <label htmlFor="compare-mode" className="text-sm text-gray-700">
-                Modo comparación A/B
+            {/* Normalización */}
+            <div>
+              <label className="block text-xs uppercase text-black mb-1" htmlFor="normalization-select">
+                Normalización de entradas
               </label>
+              <select
+                id="normalization-select"
+                value={normalization}
+                onChange={(e) => setNormalization(e.target.value as NormalizationName)}
+                className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
+              >
+                <option value="none">Ninguna (valores originales)</option>
+                <option value="minmax">Min-max → [0, 1]</option>
+                <option value="zscore">Z-score (media 0, desviación 1)</option>
+              </select>
             </div>
 
-            {/* Config B solo si compareMode */}
-            {compareMode && (
-              <div className="rounded-lg border border-gray-200 p-3 bg-white">
-                <p className="text-xs uppercase text-gray-500 mb-2">Configuración B</p>
+            {/* Split train / validación */}
+            <div>
+              <label className="block text-xs uppercase text-black mb-1" htmlFor="validation-select">
+                Validación
+              </label>
+              <select
+                id="validation-select"
+                value={validationMethod}
+                onChange={(e) => setValidationMethod(e.target.value as ValidationMethod)}
+                className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
+              >
+                <option value="none">Sin validación (todo el dataset)</option>
+                <option value="holdout">Holdout</option>
+                <option value="kfold">K-fold</option>
+              </select>
 
-                <label className="block text-xs text-gray-600 mb-1" htmlFor="activationB-select">
-                  Activación (B)
-                </label>
-                <select
-                  id="activationB-select"
-                  value={activationB}
-                  onChange={(e) => setActivationB(e.target.value as ActivationFn)}
-                  className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
-                >
-                  <option value="sigmoid">Sigmoid</option>
-                  <option value="tanh">Tanh</option>
-                  <option value="relu">ReLU</option>
-                </select>
+              {validationMethod === 'holdout' && (
+                <>
+                  <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="val-ratio-range">
+                    Validación: {Math.round(valRatio * 100)}% del dataset
+                  </label>
+                  <input
+                    id="val-ratio-range"
+                    type="range"
+                    min={0.05}
+                    max={0.5}
+                    step={0.05}
+                    value={valRatio}
+                    onChange={(e) => setValRatio(Number(e.target.value))}
+                    className="w-full accent-[#A31F34]"
+                  />
+                </>
+              )}
+
+              {validationMethod === 'kfold' && (
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <label className="text-xs text-gray-600" htmlFor="folds-select">
+                    Folds
+                    <select
+                      id="folds-select"
+                      value={folds}
+                      onChange={(e) => setFolds(Number(e.target.value))}
+                      className="w-full border rounded-lg px-2 py-1 focus:ring-[#A31F34] focus:outline-none text-black"
+                    >
+                      {[3, 5, 10].map((k) => (
+                        <option key={k} value={k}>
+                          {k}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-600" htmlFor="fold-select">
+                    Fold de validación
+                    <select
+                      id="fold-select"
+                      value={Math.min(fold, folds - 1)}
+                      onChange={(e) => setFold(Number(e.target.value))}
+                      className="w-full border rounded-lg px-2 py-1 focus:ring-[#A31F34] focus:outline-none text-black"
+                    >
+                      {Array.from({ length: folds }, (_, k) => (
+                        <option key={k} value={k}>
+                          {k + 1}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              )}
+            </div>
 
-                <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="lrB-range">
-                  Learning Rate (B)
-                </label>
+            {/* Early stopping por meseta (la divergencia siempre detiene el entrenamiento) */}
+            <div>
+              <div className="flex items-center gap-2">
                 <input
-                  id="lrB-range"
-                  type="range"
-                  min={0.001}
-                  max={0.2}
-                  step={0.001}
-                  value={learningRateB}
-                  onChange={(e) => setLearningRateB(Number(e.target.value))}
-                  className="w-full accent-[#A31F34]"
+                  id="early-stopping"
+                  type="checkbox"
+                  checked={earlyStoppingOn}
+                  onChange={() => setEarlyStoppingOn(!earlyStoppingOn)}
+                  className="accent-[#A31F34] w-4 h-4"
                 />
-                <p className="text-xs text-gray-600 mt-1">α(B) = {learningRateB.toFixed(3)}</p>
+                <label htmlFor="early-stopping" className="text-sm text-gray-700">
+                  Early stopping (meseta del error)
+                </label>
+              </div>
+
+              {earlyStoppingOn && (
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <label className="text-xs text-gray-600" htmlFor="patience-input">
+                    Paciencia (épocas)
+                    <input
+                      id="patience-input"
+                      type="number"
+                      min={1}
+                      step={10}
+                      value={patience}
+                      onChange={(e) => setPatience(Number(e.target.value))}
+                      className="w-full border rounded-lg px-2 py-1 text-black"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-600" htmlFor="min-delta-input">
+                    Mejora mínima
+                    <input
+                      id="min-delta-input"
+                      type="number"
+                      min={0}
+                      step={0.00001}
+                      value={minDelta}
+                      onChange={(e) => setMinDelta(Number(e.target.value))}
+                      className="w-full border rounded-lg px-2 py-1 text-black"
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+
+            {/* Pérdida */}
+            <div>
+              <label className="block text-xs uppercase text-black mb-1" htmlFor="loss-select">
+                Pérdida
+              </label>
+              <select
+                id="loss-select"
+                value={loss}
+                onChange={(e) => setLoss(e.target.value as LossFn)}
+                className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
+              >
+                {isRegression ? (
+                  <>
+                    <option value="mse">MSE</option>
+                    <option value="mae">MAE</option>
+                    <option value="huber">Huber</option>
+                  </>
+                ) : (
+                  <>
+                    <option value="mse">MSE</option>
+                    <option value="bce">Binary cross-entropy</option>
+                    <option value="cce">Categorical cross-entropy (softmax)</option>
+                  </>
+                )}
+              </select>
+              {isRegression && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Regresión: la neurona de salida es lineal (identidad) y predice un valor continuo.
+                </p>
+              )}
+              {loss === 'bce' && activation !== 'sigmoid' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  BCE necesita probabilidades: la neurona de salida se entrena con sigmoid.
+                </p>
+              )}
+              {!isRegression && datasetClasses > 2 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  El dataset tiene {datasetClasses} clases: se entrena con salida softmax y categorical cross-entropy.
+                </p>
+              )}
+            </div>
+
+            {/* Batching */}
+            <div>
+              <label className="block text-xs uppercase text-black mb-1" htmlFor="batch-select">
+                Descenso de gradiente
+              </label>
+              <select
+                id="batch-select"
+                value={batchSize}
+                onChange={(e) => setBatchSize(e.target.value)}
+                className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
+              >
+                <option value="1">SGD (batch = 1)</option>
+                <option value="2">Mini-batch (2)</option>
+                <option value="4">Mini-batch (4)</option>
+                <option value="8">Mini-batch (8)</option>
+                <option value="32">Mini-batch (32)</option>
+                <option value="full">Full-batch</option>
+              </select>
+              <div className="flex items-center gap-2 mt-2">
+                <input
+                  id="shuffle"
+                  type="checkbox"
+                  checked={shuffle}
+                  onChange={() => setShuffle(!shuffle)}
+                  className="accent-[#A31F34] w-4 h-4"
+                />
+                <label htmlFor="shuffle" className="text-sm text-gray-700">
+                  Barajar cada época
+                </label>
+              </div>
+            </div>
+
+            {/* Optimizador */}
+            <div>
+              <label className="block text-xs uppercase text-black mb-1" htmlFor="optimizer-select">
+                Optimizador
+              </label>
+              <select
+                id="optimizer-select"
+                value={optimizerName}
+                onChange={(e) => setOptimizerName(e.target.value as OptimizerName)}
+                className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
+              >
+                <option value="sgd">SGD</option>
+                <option value="momentum">SGD + Momentum</option>
+                <option value="nesterov">Nesterov</option>
+                <option value="rmsprop">RMSProp</option>
+                <option value="adam">Adam</option>
+              </select>
+
+              {(optimizerName === 'momentum' || optimizerName === 'nesterov') && (
+                <>
+                  <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="momentum-range">
+                    Momentum μ = {momentum.toFixed(2)}
+                  </label>
+                  <input
+                    id="momentum-range"
+                    type="range"
+                    min={0}
+                    max={0.99}
+                    step={0.01}
+                    value={momentum}
+                    onChange={(e) => setMomentum(Number(e.target.value))}
+                    className="w-full accent-[#A31F34]"
+                  />
+                </>
+              )}
+
+              {optimizerName === 'adam' && (
+                <>
+                  <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="beta1-range">
+                    β₁ = {beta1.toFixed(3)}
+                  </label>
+                  <input
+                    id="beta1-range"
+                    type="range"
+                    min={0}
+                    max={0.999}
+                    step={0.001}
+                    value={beta1}
+                    onChange={(e) => setBeta1(Number(e.target.value))}
+                    className="w-full accent-[#A31F34]"
+                  />
+                </>
+              )}
+
+              {(optimizerName === 'rmsprop' || optimizerName === 'adam') && (
+                <>
+                  <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="beta2-range">
+                    β₂ = {beta2.toFixed(3)}
+                  </label>
+                  <input
+                    id="beta2-range"
+                    type="range"
+                    min={0}
+                    max={0.999}
+                    step={0.001}
+                    value={beta2}
+                    onChange={(e) => setBeta2(Number(e.target.value))}
+                    className="w-full accent-[#A31F34]"
+                  />
+                </>
+              )}
+            </div>
+
+            {/* Schedule de learning rate */}
+            <div>
+              <label className="block text-xs uppercase text-black mb-1" htmlFor="schedule-select">
+                Schedule del learning rate
+              </label>
+              <select
+                id="schedule-select"
+                value={scheduleName}
+                onChange={(e) => setScheduleName(e.target.value as LrScheduleName)}
+                className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
+              >
+                <option value="constant">Constante</option>
+                <option value="step">Step decay</option>
+                <option value="exponential">Exponential decay</option>
+                <option value="cosine">Cosine annealing</option>
+                <option value="warmup">Warmup lineal</option>
+              </select>
+
+              {(scheduleName === 'step' || scheduleName === 'exponential') && (
+                <>
+                  <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="gamma-range">
+                    γ = {gamma.toFixed(2)} (cada {Math.max(1, Math.floor(epochs / 4))} épocas)
+                  </label>
+                  <input
+                    id="gamma-range"
+                    type="range"
+                    min={0.05}
+                    max={1}
+                    step={0.05}
+                    value={gamma}
+                    onChange={(e) => setGamma(Number(e.target.value))}
+                    className="w-full accent-[#A31F34]"
+                  />
+                </>
+              )}
+
+              <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="warmup-range">
+                Warmup: {warmupEpochs} épocas {scheduleName === 'warmup' && warmupEpochs === 0 ? '(auto)' : ''}
+              </label>
+              <input
+                id="warmup-range"
+                type="range"
+                min={0}
+                max={Math.floor(epochs / 2)}
+                step={Math.max(1, Math.floor(epochs / 40))}
+                value={warmupEpochs}
+                onChange={(e) => setWarmupEpochs(Number(e.target.value))}
+                className="w-full accent-[#A31F34]"
+              />
+            </div>
+
+            {/* Capas ocultas (MLP) */}
+            <div>
+              <label className="block text-xs uppercase text-black mb-1" htmlFor="layers-input">
+                Capas ocultas
+              </label>
+              <input
+                id="layers-input"
+                type="text"
+                value={layersSpec}
+                placeholder="vacío = una neurona · ej: 4:tanh,4:relu"
+                onChange={(e) => setLayersSpec(e.target.value)}
+                className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
+              />
+              <p className="text-xs text-gray-600 mt-1">neuronas:activación por capa, separadas por comas</p>
+            </div>
+
+            {/* Compare mode toggle */}
+            <div className="flex items-center gap-2 mt-2">
+              <input
+                id="compare-mode"
+                type="checkbox"
+                checked={compareMode}
+                onChange={() => {
+                  // Primera vez: panel actual + una variante (lr/pérdida distintas, pérdida válida para la tarea)
+                  if (!compareMode && compareConfigs.length === 0) {
+                    const base = panelRunConfig();
+                    setCompareConfigs([
+                      base,
+                      { ...base, learningRate: 0.05, activation: 'sigmoid', loss: isRegression ? 'mae' : 'bce' },
+                    ]);
+                  }
+                  setCompareMode(!compareMode);
+                  setSweepMode(false);
+                }}
+                className="accent-[#A31F34] w-4 h-4"
+              />
+              <label htmlFor="compare-mode" className="text-sm text-gray-700">
+                Modo comparación (varias corridas)
+              </label>
+            </div>
+
+            {/* Corridas a comparar: cada una con su config propia */}
+            {compareMode && (
+              <div className="rounded-lg border border-gray-200 p-3 bg-white space-y-3">
+                <p className="text-xs uppercase text-gray-500">Corridas</p>
+
+                {compareConfigs.map((cfg, i) => (
+                  <div key={i} className="border-l-4 pl-2 space-y-1" style={{ borderColor: compareColor(i) }}>
+                    <div className="flex justify-between items-center">
+                      <p className="text-sm font-medium text-gray-700">Corrida {i + 1}</p>
+                      <button
+                        onClick={() => setCompareConfigs((prev) => prev.filter((_, j) => j !== i))}
+                        disabled={compareConfigs.length <= 1}
+                        aria-label={`Quitar corrida ${i + 1}`}
+                        className="text-xs text-gray-500 hover:text-[#A31F34] disabled:opacity-40"
+                      >
+                        ✕
+                      </button>
+                    </div>
+
+                    <select
+                      aria-label={`Modelo (corrida ${i + 1})`}
+                      value={cfg.model}
+                      onChange={(e) => {
+                        const next = e.target.value as ModelKey;
+                        updateCompareConfig(i, { model: next, loss: lossForTask(cfg.loss, taskFor(next, customTask)) });
+                      }}
+                      className="w-full border rounded-lg px-2 py-1 text-sm focus:ring-[#A31F34] focus:outline-none text-black"
+                    >
+                      <ModelOptions customRows={customDataset?.X.length} />
+                    </select>
+
+                    <div className="grid grid-cols-2 gap-1">
+                      <select
+                        aria-label={`Activación (corrida ${i + 1})`}
+                        value={cfg.activation}
+                        onChange={(e) => updateCompareConfig(i, { activation: e.target.value as ActivationFn })}
+                        className="border rounded-lg px-2 py-1 text-sm focus:ring-[#A31F34] focus:outline-none text-black"
+                      >
+                        <option value="sigmoid">Sigmoid</option>
+                        <option value="tanh">Tanh</option>
+                        <option value="relu">ReLU</option>
+                      </select>
+                      <select
+                        aria-label={`Pérdida (corrida ${i + 1})`}
+                        value={cfg.loss}
+                        onChange={(e) => updateCompareConfig(i, { loss: e.target.value as LossFn })}
+                        className="border rounded-lg px-2 py-1 text-sm focus:ring-[#A31F34] focus:outline-none text-black"
+                      >
+                        <option value="mse">MSE</option>
+                        {taskFor(cfg.model, customTask) === 'regression' ? (
+                          <>
+                            <option value="mae">MAE</option>
+                            <option value="huber">Huber</option>
+                          </>
+                        ) : (
+                          <>
+                            <option value="bce">BCE</option>
+                            <option value="cce">CCE</option>
+                          </>
+                        )}
+                      </select>
+
+                      <label className="text-xs text-gray-600">
+                        lr
+                        <input
+                          type="number"
+                          min={0.0001}
+                          step={0.001}
+                          value={cfg.learningRate}
+                          onChange={(e) => updateCompareConfig(i, { learningRate: Number(e.target.value) })}
+                          className="w-full border rounded-lg px-2 py-1 text-sm text-black"
+                        />
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        épocas
+                        <input
+                          type="number"
+                          min={1}
+                          max={50000}
+                          step={500}
+                          value={cfg.epochs}
+                          onChange={(e) => updateCompareConfig(i, { epochs: Number(e.target.value) })}
+                          className="w-full border rounded-lg px-2 py-1 text-sm text-black"
+                        />
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        seed
+                        <input
+                          type="number"
+                          value={cfg.seed ?? ''}
+                          placeholder="sin seed"
+                          onChange={(e) =>
+                            updateCompareConfig(i, { seed: e.target.value === '' ? null : Number(e.target.value) })
+                          }
+                          className="w-full border rounded-lg px-2 py-1 text-sm text-black"
+                        />
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        capas
+                        <input
+                          type="text"
+                          value={cfg.layers}
+                          placeholder="ej: 4:tanh"
+                          onChange={(e) => updateCompareConfig(i, { layers: e.target.value })}
+                          className="w-full border rounded-lg px-2 py-1 text-sm text-black"
+                        />
+                      </label>
+
+                      {/* Al cambiar optimizador, schedule o validación se usan sus hiperparámetros por defecto */}
+                      <select
+                        aria-label={`Descenso de gradiente (corrida ${i + 1})`}
+                        value={cfg.batchSize}
+                        onChange={(e) => updateCompareConfig(i, { batchSize: e.target.value })}
+                        className="border rounded-lg px-2 py-1 text-sm focus:ring-[#A31F34] focus:outline-none text-black"
+                      >
+                        <option value="1">SGD (1)</option>
+                        <option value="8">Batch 8</option>
+                        <option value="32">Batch 32</option>
+                        <option value="full">Full-batch</option>
+                      </select>
+                      <label className="flex items-center gap-1 text-xs text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={cfg.shuffle}
+                          onChange={() => updateCompareConfig(i, { shuffle: !cfg.shuffle })}
+                          className="accent-[#A31F34] w-4 h-4"
+                        />
+                        barajar
+                      </label>
+                      <select
+                        aria-label={`Optimizador (corrida ${i + 1})`}
+                        value={cfg.optimizer.name}
+                        onChange={(e) => updateCompareConfig(i, { optimizer: { name: e.target.value as OptimizerName } })}
+                        className="border rounded-lg px-2 py-1 text-sm focus:ring-[#A31F34] focus:outline-none text-black"
+                      >
+                        <option value="sgd">SGD</option>
+                        <option value="momentum">Momentum</option>
+                        <option value="nesterov">Nesterov</option>
+                        <option value="rmsprop">RMSProp</option>
+                        <option value="adam">Adam</option>
+                      </select>
+                      <select
+                        aria-label={`Schedule (corrida ${i + 1})`}
+                        value={cfg.lrSchedule.name}
+                        onChange={(e) => updateCompareConfig(i, { lrSchedule: { name: e.target.value as LrScheduleName } })}
+                        className="border rounded-lg px-2 py-1 text-sm focus:ring-[#A31F34] focus:outline-none text-black"
+                      >
+                        <option value="constant">Constante</option>
+                        <option value="step">Step decay</option>
+                        <option value="exponential">Exponential decay</option>
+                        <option value="cosine">Cosine annealing</option>
+                        <option value="warmup">Warmup lineal</option>
+                      </select>
+                      <select
+                        aria-label={`Normalización (corrida ${i + 1})`}
+                        value={cfg.normalization}
+                        onChange={(e) => updateCompareConfig(i, { normalization: e.target.value as NormalizationName })}
+                        className="border rounded-lg px-2 py-1 text-sm focus:ring-[#A31F34] focus:outline-none text-black"
+                      >
+                        <option value="none">Sin normalizar</option>
+                        <option value="minmax">Min-max</option>
+                        <option value="zscore">Z-score</option>
+                      </select>
+                      <select
+                        aria-label={`Validación (corrida ${i + 1})`}
+                        value={cfg.validation.method}
+                        onChange={(e) =>
+                          updateCompareConfig(i, { validation: { method: e.target.value as ValidationMethod } })
+                        }
+                        className="border rounded-lg px-2 py-1 text-sm focus:ring-[#A31F34] focus:outline-none text-black"
+                      >
+                        <option value="none">Sin validación</option>
+                        <option value="holdout">Holdout</option>
+                        <option value="kfold">K-fold</option>
+                      </select>
+                    </div>
+                  </div>
+                ))}
+
+                <button
+                  onClick={() => setCompareConfigs((prev) => [...prev, panelRunConfig()])}
+                  disabled={compareConfigs.length >= MAX_COMPARE_RUNS}
+                  className="w-full bg-gray-100 text-black py-1 rounded-md text-sm hover:bg-gray-200 disabled:opacity-50 transition"
+                >
+                  ＋ Añadir corrida (copia del panel)
+                </button>
+                <p className="text-xs text-gray-500">
+                  Early stopping y las opciones de los sintéticos son comunes a todas.
+                </p>
+              </div>
+            )}
+
+            {/* Sweep mode toggle */}
+            <div className="flex items-center gap-2">
+              <input
+                id="sweep-mode"
+                type="checkbox"
+                checked={sweepMode}
+                onChange={() => {
+                  setSweepMode(!sweepMode);
+                  setCompareMode(false);
+                }}
+                className="accent-[#A31F34] w-4 h-4"
+              />
+              <label htmlFor="sweep-mode" className="text-sm text-gray-700">
+                Barrido de hiperparámetros (grid)
+              </label>
+            </div>
+
+            {/* Grid del barrido: listas "a,b,c" o rangos "inicio:fin:n" */}
+            {sweepMode && (
+              <div className="rounded-lg border border-gray-200 p-3 bg-white">
+                <p className="text-xs uppercase text-gray-500 mb-2">Grid</p>
+
+                <label className="block text-xs text-gray-600 mb-1" htmlFor="sweep-lr-input">
+                  Learning rates
+                </label>
+                <input
+                  id="sweep-lr-input"
+                  type="text"
+                  value={sweepLearningRates}
+                  placeholder="ej: 0.01,0.1,1 · 0.05:0.5:4"
+                  onChange={(e) => setSweepLearningRates(e.target.value)}
+                  className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
+                />
+
+                <p className="block text-xs text-gray-600 mb-1 mt-2">Activaciones</p>
+                <div className="flex gap-3">
+                  {(['sigmoid', 'tanh', 'relu'] as const).map((fn) => (
+                    <label key={fn} className="flex items-center gap-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={sweepActivations.includes(fn)}
+                        onChange={() =>
+                          setSweepActivations((prev) =>
+                            prev.includes(fn) ? prev.filter((a) => a !== fn) : [...prev, fn]
+                          )
+                        }
+                        className="accent-[#A31F34] w-4 h-4"
+                      />
+                      {fn}
+                    </label>
+                  ))}
+                </div>
+
+                <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="sweep-epochs-input">
+                  Épocas
+                </label>
+                <input
+                  id="sweep-epochs-input"
+                  type="text"
+                  value={sweepEpochs}
+                  placeholder={`vacío = ${epochs}`}
+                  onChange={(e) => setSweepEpochs(e.target.value)}
+                  className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
+                />
+
+                <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="sweep-seeds-input">
+                  Seeds
+                </label>
+                <input
+                  id="sweep-seeds-input"
+                  type="text"
+                  value={sweepSeeds}
+                  placeholder={useSeed ? `vacío = ${seed}` : 'vacío = sin seed'}
+                  onChange={(e) => setSweepSeeds(e.target.value)}
+                  className="w-full border rounded-lg px-3 py-2 focus:ring-[#A31F34] focus:outline-none text-black"
+                />
+                <p className="text-xs text-gray-600 mt-1">listas a,b,c o rangos inicio:fin:n</p>
+                {sweepError && <p className="text-xs text-red-600 mt-1">{sweepError}</p>}
               </div>
             )}
 
@@ -618,7 +2087,7 @@ export default function Home() {
                 id="epochs-range"
                 type="range"
                 min={1000}
-                max={20000}
+                max={runInBrowser ? TRAIN_LIMITS.maxEpochsInBrowser : 20000}
                 step={1000}
                 value={epochs}
                 onChange={(e) => setEpochs(Number(e.target.value))}
@@ -629,7 +2098,7 @@ export default function Home() {
 
             <div>
               <label className="block text-xs uppercase text-gray-500 mb-1" htmlFor="lr-range">
-                Learning Rate (A)
+                Learning Rate
               </label>
               <input
                 id="lr-range"
@@ -641,7 +2110,30 @@ export default function Home() {
                 onChange={(e) => setLearningRate(Number(e.target.value))}
                 className="w-full accent-[#A31F34]"
               />
-              <p className="text-xs text-gray-600 mt-1">α(A) = {learningRate.toFixed(3)}</p>
+              <p className="text-xs text-gray-600 mt-1">α = {learningRate.toFixed(3)}</p>
+            </div>
+
+            {/* Dónde se entrena */}
+            <div className="rounded-lg border border-gray-200 p-3 bg-white">
+              <div className="flex items-center gap-2">
+                <input
+                  id="run-in-browser"
+                  type="checkbox"
+                  checked={runInBrowser}
+                  onChange={() => {
+                    if (runInBrowser) setEpochs((e) => Math.min(e, 20000));
+                    setRunInBrowser(!runInBrowser);
+                  }}
+                  className="accent-[#A31F34] w-4 h-4"
+                />
+                <label htmlFor="run-in-browser" className="text-sm text-gray-700">
+                  Entrenar en el navegador (Web Worker)
+                </label>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Mismo motor que el servidor (mismo resultado con la misma seed); funciona offline y permite hasta{' '}
+                {TRAIN_LIMITS.maxEpochsInBrowser} épocas (el servidor, {TRAIN_LIMITS.maxEpochs}) sin bloquear la interfaz.
+              </p>
             </div>
 
             {/* Seed */}
@@ -680,6 +2172,7 @@ export default function Home() {
 
               <label className="block text-xs text-gray-600 mb-1" htmlFor="x1-range">
                 x₁ = {x1.toFixed(2)}
+                {scaler && <> → x₁&apos; = {scaledInput[0].toFixed(3)}</>}
               </label>
               <input
                 id="x1-range"
@@ -694,6 +2187,7 @@ export default function Home() {
 
               <label className="block text-xs text-gray-600 mb-1 mt-2" htmlFor="x2-range">
                 x₂ = {x2.toFixed(2)}
+                {scaler && <> → x₂&apos; = {scaledInput[1].toFixed(3)}</>}
               </label>
               <input
                 id="x2-range"
@@ -778,21 +2272,33 @@ export default function Home() {
                 whileHover={{ scale: 1.03 }}
                 whileTap={{ scale: 0.97 }}
                 onClick={() => {
+                  if (sweepMode) return handleTrainSweep();
                   if (compareMode) return handleTrainCompare();
                   return stepMode ? handleTrainStepMode() : handleTrainFull();
                 }}
-                disabled={loading}
+                disabled={loading || (sweepMode && sweepActivations.length === 0)}
                 className="bg-gradient-to-r from-[#A31F34] to-[#8A1A2A] text-white py-2 rounded-md font-medium shadow-sm hover:shadow-md disabled:opacity-60 transition-all"
               >
                 {loading
                   ? 'Entrenando...'
+                  : sweepMode
+                  ? 'Ejecutar barrido'
                   : compareMode
-                  ? 'Entrenar A/B'
+                  ? `Entrenar ${compareConfigs.length} corridas`
                   : stepMode
                   ? 'Iniciar Paso a Paso'
                   : 'Entrenar Modelo'}
               </motion.button>
 
+              {streaming && (
+                <button
+                  onClick={handleCancelTraining}
+                  className="bg-white border border-[#A31F34] text-[#A31F34] py-2 rounded-md font-medium hover:bg-red-50 transition"
+                >
+                  ⏹ Cancelar entrenamiento
+                </button>
+              )}
+
               <button
                 onClick={handleReset}
                 className="bg-gray-200 text-black py-2 rounded-md font-medium hover:bg-gray-300 transition"
@@ -801,7 +2307,7 @@ export default function Home() {
               </button>
 
               {/* Export / Import */}
-              <div className="grid grid-cols-2 gap-2">
+              <div className="grid grid-cols-3 gap-2">
                 <button
                   onClick={handleExport}
                   disabled={!lastExperiment}
@@ -815,6 +2321,13 @@ export default function Home() {
                 >
                   ⬆ Import
                 </button>
+                <button
+                  onClick={handlePickDataset}
+                  title="Subir dataset CSV (x₁, x₂, etiqueta 0/1) o JSON { X, y }"
+                  className="bg-white border border-gray-300 text-black py-2 rounded-md font-medium hover:bg-gray-100 transition"
+                >
+                  📄 Dataset
+                </button>
               </div>
               <input
                 ref={fileInputRef}
@@ -823,6 +2336,96 @@ export default function Home() {
                 onChange={handleImportFile}
                 className="hidden"
               />
+              <input
+                ref={datasetInputRef}
+                type="file"
+                accept=".csv,text/csv,application/json"
+                onChange={handleDatasetFile}
+                className="hidden"
+              />
+
+              {/* Experimentos guardados (historial compartido) */}
+              <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs uppercase text-black">Experimentos guardados</p>
+                  <button
+                    onClick={handleSaveExperiment}
+                    disabled={!lastExperiment}
+                    className="text-xs bg-[#111827] text-white px-2 py-1 rounded-md disabled:opacity-50"
+                  >
+                    💾 Guardar actual
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    aria-label="Filtrar por modelo"
+                    value={savedFilterModel}
+                    onChange={(e) => setSavedFilterModel(e.target.value)}
+                    className="border rounded-md px-2 py-1 text-xs text-black"
+                  >
+                    <option value="">Todos los modelos</option>
+                    <option value="satisfaction">Satisfacción</option>
+                    <option value="sales">Ventas</option>
+                    <option value="salesAmount">Importe de ventas</option>
+                    <option value="iris">Iris</option>
+                    {SYNTHETIC_DATASETS.map((name) => (
+                      <option key={name} value={name}>
+                        {SYNTHETIC_LABELS[name]}
+                      </option>
+                    ))}
+                    <option value="custom">Dataset propio</option>
+                  </select>
+                  <select
+                    aria-label="Filtrar por activación"
+                    value={savedFilterActivation}
+                    onChange={(e) => setSavedFilterActivation(e.target.value)}
+                    className="border rounded-md px-2 py-1 text-xs text-black"
+                  >
+                    <option value="">Todas las activaciones</option>
+                    <option value="sigmoid">Sigmoid</option>
+                    <option value="tanh">Tanh</option>
+                    <option value="relu">ReLU</option>
+                  </select>
+                </div>
+
+                {savedError && <p className="text-xs text-red-600">{savedError}</p>}
+
+                {savedExperiments.length === 0 ? (
+                  <p className="text-xs text-gray-500">No hay experimentos guardados.</p>
+                ) : (
+                  <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+                    {savedExperiments.map((s) => (
+                      <li key={s.id} className="py-1 flex items-center gap-2 text-xs text-gray-700">
+                        <div className="flex-1 min-w-0">
+                          <p className="truncate font-medium text-black" title={s.name}>
+                            {s.name}
+                          </p>
+                          <p className="text-gray-500">
+                            {new Date(s.createdAt).toLocaleString()} · {s.activation} · lr={s.learningRate}
+                            {s.finalError !== null && <> · error={s.finalError.toFixed(4)}</>}
+                            {s.accuracy !== undefined && <> · acc={(s.accuracy * 100).toFixed(1)}%</>}
+                            {s.r2 !== undefined && <> · R²={s.r2.toFixed(3)}</>}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleLoadSaved(s.id)}
+                          className="px-2 py-1 rounded-md bg-[#FBBF24] text-black hover:bg-[#FCD34D]"
+                        >
+                          Cargar
+                        </button>
+                        <button
+                          onClick={() => handleDeleteSaved(s.id)}
+                          aria-label={`Borrar ${s.name}`}
+                          className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300"
+                        >
+                          🗑
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
             </div>
           </div>
 
@@ -832,13 +2435,40 @@ export default function Home() {
               Época actual: <b>{currentEpoch}</b>
             </p>
             <p>
-              Error actual: <b>{currentError.toFixed(4)}</b>
+              Error actual ({(currentPoint?.loss ?? loss).toUpperCase()}): <b>{currentError.toFixed(4)}</b>
             </p>
+            {currentPoint?.valError !== undefined && (
+              <p>
+                Validación: error <b>{currentPoint.valError.toFixed(4)}</b> · accuracy{' '}
+                <b>{((currentPoint.valAccuracy ?? 0) * 100).toFixed(1)}%</b>
+              </p>
+            )}
 
             {trainMeta && (
               <p className="text-xs text-gray-500">
-                act={trainMeta.activation} · logEvery={trainMeta.logEvery} · lr={trainMeta.learningRate} ·
-                epochs={trainMeta.epochs}
+                act={metaActivationLabel(trainMeta)} · loss={trainMeta.loss ?? 'mse'} · logEvery={trainMeta.logEvery} · lr={trainMeta.learningRate} ·
+                epochs={trainMeta.epochs} · batch={trainMeta.batchSize ?? 1}
+                {trainMeta.shuffle ? ' (shuffle)' : ''} · opt={trainMeta.optimizer?.name ?? 'sgd'} · schedule=
+                {trainMeta.lrSchedule?.name ?? 'constant'}
+                {trainMeta.normalization && trainMeta.normalization !== 'none' && <> · norm={trainMeta.normalization}</>}
+                {trainMeta.validation?.method === 'holdout' && <> · val=holdout({trainMeta.validation.ratio})</>}
+                {trainMeta.validation?.method === 'kfold' && (
+                  <> · val=kfold({(trainMeta.validation.fold ?? 0) + 1}/{trainMeta.validation.folds})</>
+                )}
+                {trainMeta.layers && trainMeta.layers.length > 0 && <> · capas={formatLayers(trainMeta.layers)}</>}
+                {trainMeta.earlyStopping && (
+                  <> · early stop(paciencia={trainMeta.earlyStopping.patience}, Δ={trainMeta.earlyStopping.minDelta})</>
+                )}
+              </p>
+            )}
+
+            {/* Parada anticipada: divergencia o meseta */}
+            {trainMeta?.stopReason && trainMeta.stopReason !== 'completed' && (
+              <p
+                className={`text-xs ${trainMeta.stopReason === 'plateau' ? 'text-gray-700' : 'text-red-600 font-medium'}`}
+              >
+                {trainMeta.stopReason === 'plateau' ? '⏸' : '⚠'} Detenido en la época {trainMeta.stoppedEpoch}:{' '}
+                {STOP_REASON_LABELS[trainMeta.stopReason]}
               </p>
             )}
           </div>
@@ -886,40 +2516,29 @@ export default function Home() {
                 aria-labelledby={tabIds.resultados}
                 className="relative w-full h-[85%] flex flex-col justify-center items-center gap-4"
               >
-                {/* Comparación A/B */}
-                {compareMode && leftRun && rightRun ? (
+                {/* Barrido: ranking + heatmap lr × activación */}
+                {sweepMode && sweepRuns.length > 0 ? (
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 w-full h-full">
-                    {[{ title: 'A', run: leftRun }, { title: 'B', run: rightRun }].map(({ title, run }) => (
-                      <div key={title} className="bg-white rounded-xl border border-gray-200 p-3 h-full">
-                        <p className="text-sm text-gray-700 mb-2">
-                          <b>{title}</b> · act={run.meta.activation} · lr={run.meta.learningRate} · epochs={run.meta.epochs}
-                        </p>
-                        <div className="h-[320px]">
-                          <ResponsiveContainer width="100%" height="100%">
-                            <LineChart data={run.result.history}>
-                              <CartesianGrid strokeDasharray="3 3" stroke="#E2E2E2" />
-                              <XAxis dataKey="epoch" tick={{ fill: '#555' }} />
-                              <YAxis tick={{ fill: '#555' }} />
-                              <Tooltip
-                                contentStyle={{
-                                  backgroundColor: '#fff',
-                                  borderRadius: '8px',
-                                  border: '1px solid #A31F34',
-                                }}
-                              />
-                              <Line
-                                type="monotone"
-                                dataKey="error"
-                                stroke="#A31F34"
-                                strokeWidth={2.4}
-                                dot={false}
-                              />
-                            </LineChart>
-                          </ResponsiveContainer>
-                        </div>
-                      </div>
-                    ))}
+                    <div className="bg-white rounded-xl border border-gray-200 p-3 h-full overflow-auto">
+                      <p className="text-sm text-gray-700 mb-2">
+                        <b>{sweepRuns.length}</b> corridas · ordenadas por error final (clic en una columna para
+                        reordenar)
+                      </p>
+                      <SweepTable
+                        runs={sweepRuns}
+                        onLoad={(run) => {
+                          applyExperiment(run.experiment);
+                          setSweepMode(false);
+                        }}
+                      />
+                    </div>
+                    <div className="bg-white rounded-xl border border-gray-200 p-3 h-full">
+                      <p className="text-sm text-gray-700 mb-2">Error final: learning rate × activación</p>
+                      <SweepHeatmap runs={sweepRuns} />
+                    </div>
                   </div>
+                ) : compareMode && comparison && comparison.runs.length > 0 ? (
+                  <ComparisonPanel comparison={comparison} />
                 ) : (
                   <>
                     {/* Single run chart */}
@@ -928,7 +2547,9 @@ export default function Home() {
                         <LineChart data={displayedData.length > 0 ? displayedData : [{ epoch: 0, error: 0 }]}>
                           <CartesianGrid strokeDasharray="3 3" stroke="#E2E2E2" />
                           <XAxis dataKey="epoch" tick={{ fill: '#555' }} />
-                          <YAxis tick={{ fill: '#555' }} />
+                          <YAxis yAxisId="error" tick={{ fill: '#555' }} />
+                          {/* Learning rate efectivo (schedule) en eje secundario */}
+                          <YAxis yAxisId="lr" orientation="right" tick={{ fill: '#2563EB' }} />
                           <Tooltip
                             contentStyle={{
                               backgroundColor: '#fff',
@@ -936,30 +2557,134 @@ export default function Home() {
                               border: '1px solid #A31F34',
                             }}
                           />
+                          <Legend />
                           <Line
+                            yAxisId="error"
                             type="monotone"
                             dataKey="error"
+                            name={trainMeta?.validation && trainMeta.validation.method !== 'none' ? 'error (train)' : 'error'}
                             stroke="#A31F34"
                             strokeWidth={2.4}
                             dot={false}
                             isAnimationActive={false}
                           />
+                          {/* Validación: si se separa de train → overfitting */}
+                          {trainMeta?.validation && trainMeta.validation.method !== 'none' && (
+                            <Line
+                              yAxisId="error"
+                              type="monotone"
+                              dataKey="valError"
+                              name="error (validación)"
+                              stroke="#D97706"
+                              strokeWidth={2}
+                              dot={false}
+                              isAnimationActive={false}
+                            />
+                          )}
+                          <Line
+                            yAxisId="lr"
+                            type="stepAfter"
+                            dataKey="learningRate"
+                            name="learning rate"
+                            stroke="#2563EB"
+                            strokeWidth={1.6}
+                            strokeDasharray="4 3"
+                            dot={false}
+                            isAnimationActive={false}
+                          />
                         </LineChart>
                       </ResponsiveContainer>
                     </div>
 
-                    {/* Decision boundary */}
-                    <div className="w-full h-[45%] bg-white rounded-xl border border-gray-200 p-3">
-                      <p className="text-sm text-gray-700 mb-2">
-                        Frontera de decisión (w₁x₁ + w₂x₂ + b = 0)
-                      </p>
+                    <div className="w-full h-[45%] grid grid-cols-1 lg:grid-cols-3 gap-4">
+                      {/* Decision boundary */}
+                      <div className="lg:col-span-2 h-full bg-white rounded-xl border border-gray-200 p-3 flex flex-col">
+                        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-700 mb-2">
+                          <span>
+                            {isRegression
+                              ? isMlp
+                                ? 'Superficie ajustada ŷ(x₁, x₂) del MLP (salida lineal) y ŷ frente a y'
+                                : 'Plano ajustado ŷ = w₁x₁ + w₂x₂ + b y ŷ frente a y'
+                              : isMulticlass
+                              ? 'Clase más probable (argmax de la softmax; intensidad = probabilidad)'
+                              : isMlp
+                              ? `Probabilidad ŷ del MLP (ŷ ≥ ${threshold} → clase 1)`
+                              : thresholdZ !== null
+                              ? `ŷ = f(w₁x₁ + w₂x₂ + b); frontera ŷ = ${threshold} ⇔ z = ${thresholdZ.toFixed(3)}`
+                              : `ŷ = f(w₁x₁ + w₂x₂ + b); ${outputActivation} nunca vale ${threshold}`}
+                            {currentPoint && <span className="text-gray-500"> · época {currentEpoch}</span>}
+                          </span>
+                          {isRegression ? null : isMulticlass ? (
+                            <span className="flex flex-wrap gap-2 text-xs">
+                              {Array.from({ length: networkLayers.at(-1)?.weights.length ?? 0 }, (_, k) => (
+                                <span key={k}>
+                                  <span
+                                    className="inline-block w-3 h-3 align-middle mr-1 rounded-sm"
+                                    style={{ backgroundColor: classColor(k) }}
+                                  />
+                                  {classLabel(k)}
+                                </span>
+                              ))}
+                            </span>
+                          ) : (
+                          <>
+                          <label className="flex items-center gap-1 text-xs">
+                            Umbral
+                            <input
+                              type="number"
+                              step={0.05}
+                              value={threshold}
+                              onChange={(e) => {
+                                const v = parseFloat(e.target.value);
+                                if (Number.isFinite(v)) setThreshold(v);
+                              }}
+                              className="w-16 border border-gray-300 rounded px-1"
+                            />
+                          </label>
+                          <label className="flex items-center gap-1 text-xs">
+                            Curvas de nivel
+                            <input
+                              type="text"
+                              value={contourSpec}
+                              onChange={(e) => setContourSpec(e.target.value)}
+                              placeholder="0.1,0.3,0.7,0.9"
+                              className="w-32 border border-gray-300 rounded px-1 font-mono"
+                            />
+                          </label>
+                          </>
+                          )}
+                        </div>
 
-                      <DecisionBoundary2D
-                        dataset={dataset}
-                        bounds={bounds}
-                        weights={weights}
-                        bias={bias}
-                      />
+                        <div className="flex-1 min-h-0">
+                          {isRegression ? (
+                            <RegressionFit2D dataset={dataset} bounds={bounds} layers={timelineLayers} scaler={scaler} />
+                          ) : (
+                            <DecisionBoundary2D
+                              dataset={dataset}
+                              bounds={bounds}
+                              layers={timelineLayers}
+                              trail={boundaryTrail}
+                              scaler={scaler}
+                              threshold={threshold}
+                              levels={contourLevels}
+                            />
+                          )}
+                        </div>
+                      </div>
+
+                      {/* Métricas del modelo final */}
+                      <div className="h-full bg-white rounded-xl border border-gray-200 p-3 overflow-y-auto">
+                        <p className="text-sm text-gray-700 mb-2">Métricas (modelo final)</p>
+                        {lastExperiment?.result.metrics ? (
+                          <MetricsPanel metrics={lastExperiment.result.metrics} />
+                        ) : lastExperiment?.result.multiclassMetrics ? (
+                          <MulticlassMetricsPanel metrics={lastExperiment.result.multiclassMetrics} classLabel={classLabel} />
+                        ) : lastExperiment?.result.regressionMetrics ? (
+                          <RegressionMetricsPanel metrics={lastExperiment.result.regressionMetrics} />
+                        ) : (
+                          <p className="text-xs text-gray-500">Entrena un modelo para ver su evaluación.</p>
+                        )}
+                      </div>
                     </div>
                   </>
                 )}
@@ -974,9 +2699,18 @@ export default function Home() {
                 aria-labelledby={tabIds.visualizacion}
                 className="flex flex-col items-center gap-3"
               >
+                {isMlp ? (
+                  <NetworkDiagram layers={timelineLayers} activations={mlpForward?.activations ?? []} />
+                ) : (
                 <svg width="460" height="310" role="img" aria-label="Visualización de una neurona con dos entradas">
                   <title>Neurona: entradas, pesos, bias y salida</title>
 
+                  <defs>
+                    <marker id="grad-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M0,0 L6,3 L0,6 z" fill="#D97706" />
+                    </marker>
+                  </defs>
+
                   {/* Inputs */}
                   <circle cx="55" cy="110" r="15" fill="#A31F34" />
                   <circle cx="55" cy="210" r="15" fill="#A31F34" />
@@ -987,9 +2721,11 @@ export default function Home() {
                     y1="110"
                     x2="230"
                     y2="160"
-                    stroke={(weights[0] ?? 0) >= 0 ? '#16A34A' : '#DC2626'}
+                    stroke={(timelineWeights[0] ?? 0) >= 0 ? '#16A34A' : '#DC2626'}
                     strokeWidth={
-                      pulse ? clampStrokeWidth(weights[0] ?? 0) + 1.5 : clampStrokeWidth(weights[0] ?? 0)
+                      pulse
+                        ? clampStrokeWidth(timelineWeights[0] ?? 0) + 1.5
+                        : clampStrokeWidth(timelineWeights[0] ?? 0)
                     }
                     transition={{ duration: 0.25, ease: 'easeOut' }}
                   />
@@ -998,9 +2734,11 @@ export default function Home() {
                     y1="210"
                     x2="230"
                     y2="160"
-                    stroke={(weights[1] ?? 0) >= 0 ? '#16A34A' : '#DC2626'}
+                    stroke={(timelineWeights[1] ?? 0) >= 0 ? '#16A34A' : '#DC2626'}
                     strokeWidth={
-                      pulse ? clampStrokeWidth(weights[1] ?? 0) + 1.5 : clampStrokeWidth(weights[1] ?? 0)
+                      pulse
+                        ? clampStrokeWidth(timelineWeights[1] ?? 0) + 1.5
+                        : clampStrokeWidth(timelineWeights[1] ?? 0)
                     }
                     transition={{ duration: 0.25, ease: 'easeOut' }}
                   />
@@ -1024,7 +2762,7 @@ export default function Home() {
                     cy="160"
                     r="16"
                     animate={{
-                      fill: `rgba(50,200,50,${Math.min(1, Math.max(0.05, Math.abs(prediction ?? 0.3)))})`,
+                      fill: `rgba(50,200,50,${Math.min(1, Math.max(0.05, Math.abs(currentPoint ? yHat : prediction ?? 0.3)))})`,
                       scale: pulse ? 1.05 : 1,
                     }}
                     transition={{ duration: 0.25, ease: 'easeOut' }}
@@ -1038,14 +2776,124 @@ export default function Home() {
                     x₂
                   </text>
                   <text x="214" y="165" fontSize="12" fill="#fff">
-                    {activation === 'sigmoid' ? 'σ' : activation === 'tanh' ? 'tanh' : 'ReLU'}
+                    {outputActivation === 'linear'
+                      ? 'id'
+                      : activation === 'sigmoid'
+                      ? 'σ'
+                      : activation === 'tanh'
+                      ? 'tanh'
+                      : 'ReLU'}
+                  </text>
+                  <text x="105" y="146" fontSize="11" fill="#444">
+                    w₁ = {(timelineWeights[0] ?? 0).toFixed(3)}
                   </text>
+                  <text x="105" y="222" fontSize="11" fill="#444">
+                    w₂ = {(timelineWeights[1] ?? 0).toFixed(3)}
+                  </text>
+                  <text x="212" y="210" fontSize="11" fill="#444">
+                    b = {timelineBias.toFixed(3)}
+                  </text>
+
+                  {/* Gradientes de la época: flecha = sentido del update (-dL/dθ), largo ∝ log|dL/dθ| */}
+                  {currentGradients && (
+                    <>
+                      <GradientArrow from={[70, 110]} to={[230, 160]} grad={currentGradients.weights[0] ?? 0} label="w₁" />
+                      <GradientArrow from={[70, 210]} to={[230, 160]} grad={currentGradients.weights[1] ?? 0} label="w₂" />
+                      <GradientArrow from={[230, 160]} to={[230, 60]} grad={currentGradients.bias} label="b" />
+                    </>
+                  )}
                 </svg>
+                )}
+
+                {/* Gráfica del flujo del gradiente */}
+                {gradientData.length > 0 && (
+                  <div className="w-[520px] max-w-full h-[190px] bg-white rounded-xl border border-gray-200 p-2">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={gradientData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#E2E2E2" />
+                        <XAxis dataKey="epoch" tick={{ fill: '#555', fontSize: 10 }} />
+                        <YAxis
+                          scale="log"
+                          domain={['auto', 'auto']}
+                          allowDataOverflow
+                          tick={{ fill: '#555', fontSize: 10 }}
+                          tickFormatter={(v: number) => v.toExponential(0)}
+                          width={44}
+                        />
+                        <Tooltip formatter={(v) => (typeof v === 'number' ? v.toExponential(3) : v)} />
+                        <Legend wrapperStyle={{ fontSize: 11 }} />
+                        <Line type="monotone" dataKey="norm" name="‖∇L‖" stroke="#1B1B1B" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        {currentGradients?.layerNorms
+                          ? currentGradients.layerNorms.map((_, l, all) => (
+                              <Line
+                                key={l}
+                                type="monotone"
+                                dataKey={`layer${l}`}
+                                name={l === all.length - 1 ? '‖∇‖ salida' : `‖∇‖ capa ${l + 1}`}
+                                stroke={compareColor(l + 1)}
+                                strokeWidth={1.5}
+                                dot={false}
+                                isAnimationActive={false}
+                              />
+                            ))
+                          : currentGradients?.weights.map((_, i) => (
+                              <Line
+                                key={i}
+                                type="monotone"
+                                dataKey={`w${i}`}
+                                name={`|∂L/∂w${i + 1}|`}
+                                stroke={compareColor(i + 1)}
+                                strokeWidth={1.5}
+                                dot={false}
+                                isAnimationActive={false}
+                              />
+                            ))}
+                        <Line type="monotone" dataKey="b" name="|∂L/∂b|" stroke="#D97706" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+
+                {/* Superficie de pérdida con la trayectoria de (w₁, w₂) */}
+                {landscape && (
+                  <div className="w-[520px] max-w-full bg-white rounded-xl border border-gray-200 p-2">
+                    <p className="text-sm text-gray-700 mb-1">
+                      Superficie de pérdida L(w₁, w₂) · b = {(currentPoint?.bias ?? 0).toFixed(3)} (época {currentEpoch})
+                    </p>
+                    <LossLandscapePlot landscape={landscape} path={landscapePath} />
+                  </div>
+                )}
 
                 <div className="text-xs text-gray-700 text-center max-w-xl">
-                  <p>
-                    z = x₁·w₁ + x₂·w₂ + b = <b>{z.toFixed(3)}</b> · ŷ = f(z) = <b>{yHat.toFixed(3)}</b>
-                  </p>
+                  {outputProbabilities ? (
+                    <p>
+                      softmax(z) = [
+                      {outputProbabilities.map((p, k) => (
+                        <span key={k} style={{ color: classColor(k) }}>
+                          {k > 0 && ', '}
+                          {p.toFixed(3)}
+                        </span>
+                      ))}
+                      ] → clase <b>{classLabel(argmax(outputProbabilities))}</b>
+                    </p>
+                  ) : (
+                    <p>
+                      z = x₁·w₁ + x₂·w₂ + b = <b>{z.toFixed(3)}</b> · ŷ = f(z) = <b>{yHat.toFixed(3)}</b>
+                    </p>
+                  )}
+                  {optimizerSummary && <p className="mt-1 font-mono">{optimizerSummary}</p>}
+                  {currentGradients && (
+                    <p className="mt-1 font-mono">
+                      ∂L/∂w = [{currentGradients.weights.map((g) => g.toExponential(2)).join(', ')}] · ∂L/∂b ={' '}
+                      {currentGradients.bias.toExponential(2)} · ‖∇L‖ = {currentGradients.norm.toExponential(2)}
+                    </p>
+                  )}
+                  {currentGradients && (
+                    <p className="mt-1 text-gray-500">
+                      Gradiente en escala log: si la activación se satura, f&apos;(z) ≈ 0 y el gradiente se desvanece
+                      (las flechas casi desaparecen aunque el error siga alto).
+                    </p>
+                  )}
                   <p className="mt-1">
                     <span className="inline-block w-3 h-3 bg-[#16A34A] align-middle mr-1 rounded-sm" />
                     peso positivo ·
@@ -1067,8 +2915,39 @@ export default function Home() {
                 <h3 className="text-2xl font-serif text-black mb-3">🧮 Cómo Aprende una Red Neuronal</h3>
 
                 <div className="bg-white border border-gray-200 rounded-xl p-4 text-left text-sm text-gray-700 mb-4">
-                  <p className="font-semibold text-gray-900 mb-1">Explicación viva</p>
-                  <p>{liveMessage}</p>
+                  <p className="font-semibold text-gray-900 mb-1">
+                    Explicación viva
+                    {currentInsight && (
+                      <span className="ml-2 font-normal text-xs text-gray-500">
+                        época {currentInsight.epoch} · {INSIGHT_LABELS[currentInsight.kind]}
+                      </span>
+                    )}
+                  </p>
+                  <p>{currentInsight?.message ?? liveMessage}</p>
+
+                  {currentInsight && (
+                    <>
+                      {/* Señales detectadas en esta época (además del mensaje principal) */}
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {currentInsight.diverging && <InsightChip label="divergencia" />}
+                        {currentInsight.oscillating && <InsightChip label="oscilación" />}
+                        {currentInsight.deadRelu !== undefined && (
+                          <InsightChip label={`ReLU muertas: ${currentInsight.deadRelu}`} />
+                        )}
+                        {currentInsight.saturated && <InsightChip label="saturación" />}
+                        {currentInsight.plateau && <InsightChip label="meseta" />}
+                      </div>
+                      {currentInsight.weightDeltas.length > 0 && (
+                        <p className="mt-2 font-mono text-xs text-gray-600">
+                          {currentInsight.weightDeltas
+                            .map((d) => `Δw${d.weightIndex + 1} = ${d.delta >= 0 ? '+' : ''}${d.delta.toFixed(4)}`)
+                            .join(' · ')}{' '}
+                          · Δb = {currentInsight.biasDelta >= 0 ? '+' : ''}
+                          {currentInsight.biasDelta.toFixed(4)}
+                        </p>
+                      )}
+                    </>
+                  )}
                 </div>
 
                 <motion.pre
@@ -1082,7 +2961,8 @@ z = x₁w₁ + x₂w₂ + b
 ŷ = f(z)
 
 Loss (demo):
-error = (y - ŷ)²
+MSE: error = (y - ŷ)²
+BCE: error = -[y·ln ŷ + (1-y)·ln(1-ŷ)]
 
 Update (idea):
 wᵢ ← wᵢ + α * (y - ŷ) * f'(z) * xᵢ`}
@@ -1090,8 +2970,8 @@ wᵢ ← wᵢ + α * (y - ŷ) * f'(z) * xᵢ`}
 
                 <p className="text-gray-600 text-sm md:text-base">
                   En cada <strong>epoch</strong>, el modelo ajusta los pesos <em>(w₁, w₂)</em> y el sesgo{' '}
-                  <em>(b)</em> para reducir el error. Con “Comparación A/B” puedes ver cómo cambian los resultados al
-                  variar <em>learning rate</em> o la función de activación.
+                  <em>(b)</em> para reducir el error. Con el “Modo comparación” puedes entrenar varias corridas a la vez,
+                  cada una con su <em>learning rate</em>, activación, pérdida u optimizador, y superponer sus curvas.
                 </p>
               </div>
             )}
@@ -1102,26 +2982,41 @@ wᵢ ← wᵢ + α * (y - ŷ) * f'(z) * xᵢ`}
       {/* FOOTER */}
       <footer className="sticky bottom-0 bg-[#1B1B1B] text-gray-300 py-3 px-6 flex justify-between items-center text-sm">
         <p>© 2025 Laboratorio de Aprendizaje Automático · Ing. Emilio Bogantes</p>
-        <p className="text-gray-500">{compareMode ? 'Comparación A/B' : stepMode ? 'Paso a Paso' : 'Auto'} · v6.0</p>
+        <p className="text-gray-500">{sweepMode ? 'Barrido' : compareMode ? 'Comparación' : stepMode ? 'Paso a Paso' : 'Auto'} · v6.0</p>
       </footer>
     </main>
   );
 }
 
 /**
- * Componente: Frontera de decisión 2D
- * - Dibuja puntos del dataset (y=0 rojo, y=1 verde)
- * - Dibuja línea w1*x + w2*y + b = 0
+ * Componente: superficie de decisión 2D
+ * - Fondo: rejilla coloreada por ŷ (rojo = clase 0, verde = clase 1, blanco = umbral)
+ * - Curvas de nivel de ŷ (marching squares) y la frontera ŷ = umbral en trazo grueso
+ * - Multi-clase (softmax): cada celda con el color de la clase más probable
+ * - Puntos del dataset coloreados por clase (y=0 rojo, y=1 verde, ...)
  *
  * Sin dependencias extra: SVG puro.
  */
 function DecisionBoundary2D(props: {
   dataset: { X: [number, number][], y: number[] };
   bounds: { xMin: number; xMax: number; yMin: number; yMax: number };
-  weights: number[];
-  bias: number;
+
+  /** Red a dibujar (una neurona = una sola capa). */
+  layers: LayerParams[];
+
+  /** Redes de épocas anteriores: su frontera se dibuja tenue (estela). */
+  trail?: LayerParams[][];
+
+  /** Scaler del entrenamiento: la rejilla y los puntos van en escala original. */
+  scaler?: Scaler;
+
+  /** ŷ ≥ threshold → clase 1 (con salida softmax no se usa: clase = argmax). */
+  threshold: number;
+
+  /** Niveles de ŷ a trazar además del umbral. */
+  levels: number[];
 }) {
-  const { dataset, bounds, weights, bias } = props;
+  const { dataset, bounds, layers, trail = [], scaler, threshold, levels } = props;
 
   const W = 520;
   const H = 220;
@@ -1131,28 +3026,134 @@ function DecisionBoundary2D(props: {
   // Ojo: SVG y crece hacia abajo; invertimos para que “arriba” sea mayor y
   const sy = makeScaler(bounds.yMin, bounds.yMax, H - pad, pad);
 
-  const w1 = weights[0] ?? 0;
-  const w2 = weights[1] ?? 0;
+  // ŷ en los nodos de la rejilla (una neurona: f(w·x + b); MLP: forward completo)
+  const cells = 40;
+  const output = layers[layers.length - 1];
+  const multiclass = output.activation === 'softmax';
+  const gx = (i: number) => bounds.xMin + (i / cells) * (bounds.xMax - bounds.xMin);
+  const gy = (j: number) => bounds.yMin + (j / cells) * (bounds.yMax - bounds.yMin);
+  const gridFor = (net: LayerParams[]) => {
+    const out = net[net.length - 1];
+    const predict = (x: number[]) => {
+      if (net.length === 1 && out.activation !== 'softmax') {
+        const z = x.reduce((acc, v, k) => acc + v * (out.weights[0]?.[k] ?? 0), out.biases[0] ?? 0);
+        return activationForward(z, out.activation);
+      }
+      const { activations } = forwardNetwork(net, x);
+      return activations[activations.length - 1][0];
+    };
+    return Array.from({ length: cells + 1 }, (_, j) =>
+      Array.from({ length: cells + 1 }, (_, i) => predict(applyScaler(scaler, [gx(i), gy(j)])))
+    );
+  };
+  const grid = gridFor(layers);
+
+  // Multi-clase: clase más probable y su probabilidad en el centro de cada celda
+  const classCells = multiclass
+    ? Array.from({ length: cells }, (_, j) =>
+        Array.from({ length: cells }, (_, i) => {
+          const { activations } = forwardNetwork(layers, applyScaler(scaler, [gx(i + 0.5), gy(j + 0.5)]));
+          const probs = activations[activations.length - 1];
+          const label = argmax(probs);
+          return { label, p: probs[label] };
+        })
+      )
+    : [];
+  const chance = 1 / Math.max(2, output.weights.length);
+
+  // Color: distancia al umbral relativa al rango de la activación
+  const [lo, hi] = output.activation === 'tanh' ? [-1, 1] : [0, 1];
+  const color = (v: number) => {
+    const t = v >= threshold ? (v - threshold) / Math.max(hi - threshold, 1e-6) : (threshold - v) / Math.max(threshold - lo, 1e-6);
+    const alpha = Math.min(1, Math.max(0, t)) * 0.45;
+    return v >= threshold ? `rgba(22,163,74,${alpha})` : `rgba(220,38,38,${alpha})`;
+  };
 
-  // Compute line in data space
-  let line: { x1: number; y1: number; x2: number; y2: number } | null = null;
-  if (Math.abs(w2) < 1e-6) {
-    // vertical: x = -b/w1
-    if (Math.abs(w1) >= 1e-6) {
-      const x = -bias / w1;
-      line = { x1: x, y1: bounds.yMin, x2: x, y2: bounds.yMax };
+  // Marching squares: segmentos donde ŷ cruza `level` (interpolación lineal en cada arista)
+  const contour = (level: number, values = grid) => {
+    let d = '';
+    for (let j = 0; j < cells; j++) {
+      for (let i = 0; i < cells; i++) {
+        const corners: [number, number, number][] = [
+          [i, j, values[j][i]],
+          [i + 1, j, values[j][i + 1]],
+          [i + 1, j + 1, values[j + 1][i + 1]],
+          [i, j + 1, values[j + 1][i]],
+        ];
+        const crossings: [number, number][] = [];
+        corners.forEach(([ia, ja, a], k) => {
+          const [ib, jb, b] = corners[(k + 1) % 4];
+          if ((a - level) * (b - level) < 0) {
+            const t = (level - a) / (b - a);
+            crossings.push([sx(gx(ia + t * (ib - ia))), sy(gy(ja + t * (jb - ja)))]);
+          }
+        });
+        for (let k = 0; k + 1 < crossings.length; k += 2) {
+          const [[x1, y1], [x2, y2]] = [crossings[k], crossings[k + 1]];
+          d += `M${x1.toFixed(1)},${y1.toFixed(1)}L${x2.toFixed(1)},${y2.toFixed(1)}`;
+        }
+      }
     }
-  } else {
-    const xA = bounds.xMin;
-    const xB = bounds.xMax;
-    const yA = (-bias - w1 * xA) / w2;
-    const yB = (-bias - w1 * xB) / w2;
-    line = { x1: xA, y1: yA, x2: xB, y2: yB };
-  }
+    return d;
+  };
+
+  const cellW = (W - 2 * pad) / cells;
+  const cellH = (H - 2 * pad) / cells;
 
   return (
-    <svg width="100%" height="100%" viewBox={`0 0 ${W} ${H}`} role="img" aria-label="Frontera de decisión en 2D">
-      <title>Frontera de decisión y puntos del dataset</title>
+    <svg width="100%" height="100%" viewBox={`0 0 ${W} ${H}`} role="img" aria-label="Superficie de decisión en 2D">
+      <title>Probabilidad predicha, frontera de decisión y puntos del dataset</title>
+
+      {/* Fondo multi-clase: color de la clase ganadora, más intenso cuanto más segura */}
+      {classCells.map((row, j) =>
+        row.map(({ label, p }, i) => (
+          <rect
+            key={`${i}-${j}`}
+            x={pad + i * cellW}
+            y={H - pad - (j + 1) * cellH}
+            width={cellW + 0.5}
+            height={cellH + 0.5}
+            fill={classColor(label)}
+            opacity={0.08 + (0.37 * (p - chance)) / (1 - chance)}
+          />
+        ))
+      )}
+
+      {/* Fondo: ŷ por celda (promedio de sus 4 esquinas) */}
+      {!multiclass && grid.slice(0, cells).map((row, j) =>
+        row.slice(0, cells).map((v, i) => (
+          <rect
+            key={`${i}-${j}`}
+            x={pad + i * cellW}
+            y={H - pad - (j + 1) * cellH}
+            width={cellW + 0.5}
+            height={cellH + 0.5}
+            fill={color((v + row[i + 1] + grid[j + 1][i] + grid[j + 1][i + 1]) / 4)}
+          />
+        ))
+      )}
+
+      {/* Curvas de nivel */}
+      {!multiclass && levels
+        .filter((level) => level !== threshold)
+        .map((level) => (
+          <path key={level} d={contour(level)} fill="none" stroke="#6B7280" strokeWidth="1" strokeDasharray="3 3" />
+        ))}
+
+      {/* Estela: fronteras de épocas anteriores (más tenues cuanto más antiguas) */}
+      {!multiclass && trail.map((net, k) => (
+        <path
+          key={`trail-${k}`}
+          d={contour(threshold, gridFor(net))}
+          fill="none"
+          stroke="#111827"
+          strokeWidth="1.5"
+          opacity={0.1 + (0.35 * (k + 1)) / trail.length}
+        />
+      ))}
+
+      {/* Frontera: ŷ = umbral */}
+      {!multiclass && <path d={contour(threshold)} fill="none" stroke="#111827" strokeWidth="2" />}
 
       {/* Axes */}
       <line x1={pad} y1={H - pad} x2={W - pad} y2={H - pad} stroke="#999" strokeWidth="1" />
@@ -1166,32 +3167,795 @@ function DecisionBoundary2D(props: {
             key={i}
             cx={sx(x)}
             cy={sy(yVal)}
-            r={5}
-            fill={label === 1 ? '#16A34A' : '#DC2626'}
+            r={dataset.X.length > 100 ? 3 : 5}
+            fill={classColor(label)}
             opacity={0.9}
           />
         );
       })}
 
-      {/* Decision boundary */}
-      {line && (
-        <line
-          x1={sx(line.x1)}
-          y1={sy(line.y1)}
-          x2={sx(line.x2)}
-          y2={sy(line.y2)}
+      {/* Labels */}
+      <text x={W - pad - 10} y={H - pad - 6} fontSize="11" fill="#555">
+        x₁
+      </text>
+      <text x={pad + 6} y={pad + 12} fontSize="11" fill="#555">
+        x₂
+      </text>
+    </svg>
+  );
+}
+
+/**
+ * Componente: superficie de pérdida L(w₁, w₂)
+ * - Mapa de calor en escala log, por bandas (cada cambio de color es una curva de nivel)
+ * - Trayectoria de (w₁, w₂) hasta el punto del timeline, con el punto actual marcado
+ */
+function LossLandscapePlot(props: { landscape: LossLandscape; path: [number, number][] }) {
+  const { landscape, path } = props;
+  const { w1, w2, values } = landscape;
+
+  const W = 500;
+  const H = 300;
+  const pad = 28;
+  const bands = 12;
+
+  const sx = makeScaler(w1[0], w1[w1.length - 1], pad, W - pad);
+  const sy = makeScaler(w2[0], w2[w2.length - 1], H - pad, pad);
+  // Paso entre centros de la rejilla (misma escala que la trayectoria)
+  const cellW = (W - 2 * pad) / Math.max(1, w1.length - 1);
+  const cellH = (H - 2 * pad) / Math.max(1, w2.length - 1);
+
+  const lo = Math.log10(Math.max(landscape.min, 1e-12));
+  const hi = Math.log10(Math.max(landscape.max, 1e-12));
+  const color = (v: number) => {
+    const t = hi > lo ? (Math.log10(Math.max(v, 1e-12)) - lo) / (hi - lo) : 0;
+    const band = Math.min(bands - 1, Math.floor(t * bands)) / (bands - 1);
+    return `hsl(${Math.round(220 - 220 * band)}, 70%, ${Math.round(85 - 30 * band)}%)`;
+  };
+
+  const current = path.at(-1);
+  const points = path.map(([a, b]) => `${sx(a)},${sy(b)}`).join(' ');
+
+  return (
+    <svg width="100%" viewBox={`0 0 ${W} ${H}`} role="img" aria-label="Superficie de pérdida sobre w₁ y w₂">
+      <title>Superficie de pérdida y trayectoria del entrenamiento</title>
+
+      {/* Rejilla (cada celda centrada en su (w₁, w₂)) */}
+      {values.map((row, j) =>
+        row.map((v, i) => (
+          <rect
+            key={`${i}-${j}`}
+            x={sx(w1[i]) - cellW / 2}
+            y={sy(w2[j]) - cellH / 2}
+            width={cellW + 0.5}
+            height={cellH + 0.5}
+            fill={color(v)}
+          >
+            <title>{`w₁ = ${w1[i].toFixed(2)}, w₂ = ${w2[j].toFixed(2)} → L = ${v.toFixed(4)}`}</title>
+          </rect>
+        ))
+      )}
+
+      {/* Trayectoria */}
+      {path.length > 1 && <polyline points={points} fill="none" stroke="#111827" strokeWidth="1.8" />}
+      {path.length > 0 && <circle cx={sx(path[0][0])} cy={sy(path[0][1])} r="3.5" fill="#fff" stroke="#111827" />}
+      {current && <circle cx={sx(current[0])} cy={sy(current[1])} r="5" fill="#A31F34" stroke="#fff" strokeWidth="1.5" />}
+
+      {/* Ejes */}
+      <line x1={pad} y1={H - pad} x2={W - pad} y2={H - pad} stroke="#999" strokeWidth="1" />
+      <line x1={pad} y1={pad} x2={pad} y2={H - pad} stroke="#999" strokeWidth="1" />
+      <text x={pad} y={H - 8} fontSize="10" fill="#555">
+        {w1[0].toFixed(1)}
+      </text>
+      <text x={W - pad} y={H - 8} fontSize="10" fill="#555" textAnchor="end">
+        {w1[w1.length - 1].toFixed(1)}
+      </text>
+      <text x={W / 2} y={H - 8} fontSize="11" fill="#555" textAnchor="middle">
+        w₁
+      </text>
+      <text x={4} y={H - pad} fontSize="10" fill="#555">
+        {w2[0].toFixed(1)}
+      </text>
+      <text x={4} y={pad + 4} fontSize="10" fill="#555">
+        {w2[w2.length - 1].toFixed(1)}
+      </text>
+      <text x={8} y={H / 2} fontSize="11" fill="#555">
+        w₂
+      </text>
+
+      {/* Leyenda */}
+      <text x={W - pad} y={pad - 10} fontSize="10" fill="#555" textAnchor="end">
+        L: {landscape.min.toExponential(1)} (azul) → {landscape.max.toExponential(1)} (rojo)
+      </text>
+    </svg>
+  );
+}
+
+/**
+ * Componente: reporte de clasificación
+ * - accuracy / precision / recall / F1
+ * - matriz de confusión (filas = real, columnas = predicho)
+ * - curva ROC con su AUC
+ */
+function MetricsPanel(props: { metrics: ClassificationMetrics }) {
+  const { metrics } = props;
+  const { tp, fp, tn, fn } = metrics.confusion;
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+  return (
+    <div className="space-y-3 text-xs text-gray-700">
+      <div className="grid grid-cols-2 gap-1">
+        <span>
+          Accuracy: <b>{pct(metrics.accuracy)}</b>
+        </span>
+        <span>
+          F1: <b>{metrics.f1.toFixed(3)}</b>
+        </span>
+        <span>
+          Precision: <b>{metrics.precision.toFixed(3)}</b>
+        </span>
+        <span>
+          Recall: <b>{metrics.recall.toFixed(3)}</b>
+        </span>
+      </div>
+
+      <table className="w-full text-center border-collapse">
+        <caption className="text-left text-gray-500 mb-1">
+          Matriz de confusión (umbral {metrics.threshold}, {metrics.samples} samples)
+        </caption>
+        <thead>
+          <tr>
+            <th />
+            <th className="font-normal text-gray-500">ŷ = 0</th>
+            <th className="font-normal text-gray-500">ŷ = 1</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <th className="font-normal text-gray-500">y = 0</th>
+            <td className="border bg-green-50">TN {tn}</td>
+            <td className="border bg-red-50">FP {fp}</td>
+          </tr>
+          <tr>
+            <th className="font-normal text-gray-500">y = 1</th>
+            <td className="border bg-red-50">FN {fn}</td>
+            <td className="border bg-green-50">TP {tp}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div>
+        <p className="text-gray-500">
+          ROC · AUC = <b>{metrics.auc !== null ? metrics.auc.toFixed(3) : 'n/a (una sola clase)'}</b>
+        </p>
+        <div className="h-28">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={metrics.roc}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#E2E2E2" />
+              <XAxis dataKey="fpr" type="number" domain={[0, 1]} tick={{ fill: '#555', fontSize: 10 }} />
+              <YAxis dataKey="tpr" domain={[0, 1]} tick={{ fill: '#555', fontSize: 10 }} width={28} />
+              <Line type="linear" dataKey="tpr" stroke="#A31F34" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Componente: reporte multi-clase
+ * - accuracy / macro-F1
+ * - matriz de confusión K×K (filas = real, columnas = predicho; diagonal = aciertos)
+ * - precision / recall / F1 por clase
+ */
+/**
+ * Componente: ajuste de un modelo de regresión (salida lineal)
+ * - Izquierda: superficie ŷ(x₁, x₂) como mapa de color, con los puntos del dataset
+ *   coloreados por su y real en la misma escala (si coinciden con el fondo, el ajuste es bueno)
+ * - Derecha: ŷ frente a y con la recta ŷ = y (ajuste perfecto) y los residuos
+ */
+function RegressionFit2D(props: {
+  dataset: { X: [number, number][], y: number[] };
+  bounds: { xMin: number; xMax: number; yMin: number; yMax: number };
+
+  /** Red a dibujar (una neurona = una sola capa). */
+  layers: LayerParams[];
+
+  /** Scaler del entrenamiento: la rejilla y los puntos van en escala original. */
+  scaler?: Scaler;
+}) {
+  const { dataset, bounds, layers, scaler } = props;
+
+  const W = 520;
+  const H = 220;
+  const pad = 18;
+  const split = 340; // ancho de la superficie; el resto es ŷ frente a y
+
+  const predict = (x: number[]) => {
+    const { activations } = forwardNetwork(layers, applyScaler(scaler, x));
+    return activations[activations.length - 1][0];
+  };
+  const fitted = dataset.X.map((x) => predict(x));
+
+  // Escala de color común a y y ŷ (azul = bajo, ámbar = alto)
+  const all = [...dataset.y, ...fitted].filter(Number.isFinite);
+  const vMin = Math.min(...all);
+  const vMax = Math.max(...all);
+  const color = (v: number) => {
+    const t = Math.min(1, Math.max(0, (v - vMin) / Math.max(vMax - vMin, 1e-9)));
+    return `rgb(${Math.round(37 + t * 180)},${Math.round(99 + t * 20)},${Math.round(235 - t * 200)})`;
+  };
+
+  const sx = makeScaler(bounds.xMin, bounds.xMax, pad, split - pad);
+  const sy = makeScaler(bounds.yMin, bounds.yMax, H - pad, pad);
+
+  // ŷ en el centro de cada celda
+  const cells = 30;
+  const gx = (i: number) => bounds.xMin + ((i + 0.5) / cells) * (bounds.xMax - bounds.xMin);
+  const gy = (j: number) => bounds.yMin + ((j + 0.5) / cells) * (bounds.yMax - bounds.yMin);
+  const cellW = (split - 2 * pad) / cells;
+  const cellH = (H - 2 * pad) / cells;
+
+  // ŷ frente a y (mismo rango en ambos ejes)
+  const px = makeScaler(vMin, vMax, split + pad + 10, W - pad);
+  const py = makeScaler(vMin, vMax, H - pad, pad);
+
+  return (
+    <svg width="100%" height="100%" viewBox={`0 0 ${W} ${H}`} role="img" aria-label="Ajuste del modelo de regresión">
+      <title>Superficie ajustada, puntos del dataset y predicción frente a valor real</title>
+
+      {/* Superficie ŷ(x₁, x₂) */}
+      {Array.from({ length: cells }, (_, j) =>
+        Array.from({ length: cells }, (_, i) => (
+          <rect
+            key={`${i}-${j}`}
+            x={pad + i * cellW}
+            y={H - pad - (j + 1) * cellH}
+            width={cellW + 0.5}
+            height={cellH + 0.5}
+            fill={color(predict([gx(i), gy(j)]))}
+            opacity={0.45}
+          />
+        ))
+      )}
+
+      <line x1={pad} y1={H - pad} x2={split - pad} y2={H - pad} stroke="#999" strokeWidth="1" />
+      <line x1={pad} y1={pad} x2={pad} y2={H - pad} stroke="#999" strokeWidth="1" />
+
+      {/* Puntos: color = y real */}
+      {dataset.X.map(([x, yVal], i) => (
+        <circle
+          key={i}
+          cx={sx(x)}
+          cy={sy(yVal)}
+          r={dataset.X.length > 100 ? 3 : 5}
+          fill={color(dataset.y[i])}
           stroke="#111827"
-          strokeWidth="2"
+          strokeWidth="1"
         />
-      )}
+      ))}
 
-      {/* Labels */}
-      <text x={W - pad - 10} y={H - pad - 6} fontSize="11" fill="#555">
+      <text x={split - pad - 10} y={H - pad - 6} fontSize="11" fill="#555">
         x₁
       </text>
       <text x={pad + 6} y={pad + 12} fontSize="11" fill="#555">
         x₂
       </text>
+
+      {/* ŷ frente a y: recta de ajuste perfecto y residuos */}
+      <line x1={px(vMin)} y1={H - pad} x2={W - pad} y2={H - pad} stroke="#999" strokeWidth="1" />
+      <line x1={px(vMin)} y1={pad} x2={px(vMin)} y2={H - pad} stroke="#999" strokeWidth="1" />
+      <line x1={px(vMin)} y1={py(vMin)} x2={px(vMax)} y2={py(vMax)} stroke="#111827" strokeWidth="1.5" />
+      {dataset.y.map((yTrue, i) =>
+        Number.isFinite(fitted[i]) ? (
+          <g key={i}>
+            <line x1={px(yTrue)} y1={py(yTrue)} x2={px(yTrue)} y2={py(fitted[i])} stroke="#DC2626" strokeWidth="1" opacity={0.5} />
+            <circle cx={px(yTrue)} cy={py(fitted[i])} r={dataset.X.length > 100 ? 2 : 3.5} fill="#A31F34" />
+          </g>
+        ) : null
+      )}
+      <text x={W - pad - 8} y={H - pad - 6} fontSize="11" fill="#555">
+        y
+      </text>
+      <text x={px(vMin) + 6} y={pad + 12} fontSize="11" fill="#555">
+        ŷ
+      </text>
     </svg>
   );
-}
\ No newline at end of file
+}
+
+/** Componente: métricas de regresión (R², MAE, RMSE) del modelo final. */
+function RegressionMetricsPanel(props: { metrics: RegressionMetrics }) {
+  const { metrics } = props;
+
+  return (
+    <div className="space-y-3 text-xs text-gray-700">
+      <div className="grid grid-cols-2 gap-1">
+        <span>
+          R²: <b>{metrics.r2.toFixed(3)}</b>
+        </span>
+        <span>
+          MAE: <b>{metrics.mae.toFixed(3)}</b>
+        </span>
+        <span>
+          RMSE: <b>{metrics.rmse.toFixed(3)}</b>
+        </span>
+        <span>
+          Samples: <b>{metrics.samples}</b>
+        </span>
+      </div>
+      <p className="text-gray-500">
+        R² = 1 → el modelo explica toda la variación de y; R² ≤ 0 → no mejora a predecir siempre la media.
+        RMSE penaliza más los errores grandes que MAE.
+      </p>
+    </div>
+  );
+}
+
+function MulticlassMetricsPanel(props: { metrics: MulticlassMetrics; classLabel: (label: number) => string }) {
+  const { metrics, classLabel } = props;
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  const classes = metrics.perClass.map((_, k) => k);
+
+  return (
+    <div className="space-y-3 text-xs text-gray-700">
+      <div className="grid grid-cols-2 gap-1">
+        <span>
+          Accuracy: <b>{pct(metrics.accuracy)}</b>
+        </span>
+        <span>
+          Macro-F1: <b>{metrics.macroF1.toFixed(3)}</b>
+        </span>
+      </div>
+
+      <table className="w-full text-center border-collapse">
+        <caption className="text-left text-gray-500 mb-1">
+          Matriz de confusión (argmax, {metrics.samples} samples)
+        </caption>
+        <thead>
+          <tr>
+            <th className="font-normal text-gray-500 text-left">real \ pred.</th>
+            {classes.map((k) => (
+              <th key={k} className="font-normal text-gray-500">
+                {classLabel(k)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.confusion.map((row, real) => (
+            <tr key={real}>
+              <th className="font-normal text-gray-500 text-left">{classLabel(real)}</th>
+              {row.map((count, pred) => (
+                <td key={pred} className={`border ${real === pred ? 'bg-green-50' : count > 0 ? 'bg-red-50' : ''}`}>
+                  {count}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <table className="w-full text-center border-collapse">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="font-normal text-left">clase</th>
+            <th className="font-normal">precision</th>
+            <th className="font-normal">recall</th>
+            <th className="font-normal">F1</th>
+            <th className="font-normal">n</th>
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.perClass.map((c, k) => (
+            <tr key={k}>
+              <td className="text-left">
+                <span className="inline-block w-2 h-2 mr-1 rounded-sm" style={{ backgroundColor: classColor(k) }} />
+                {classLabel(k)}
+              </td>
+              <td className="font-mono">{c.precision.toFixed(3)}</td>
+              <td className="font-mono">{c.recall.toFixed(3)}</td>
+              <td className="font-mono">{c.f1.toFixed(3)}</td>
+              <td className="font-mono">{c.support}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Flecha de gradiente sobre una conexión del SVG de la neurona.
+ * Sentido = el del update (-dL/dθ: hacia `to` si el parámetro sube), largo ∝ log10|dL/dθ|
+ * entre 1e-6 (casi nada) y 1 (máximo).
+ */
+function GradientArrow(props: { from: [number, number]; to: [number, number]; grad: number; label: string }) {
+  const { from, to, grad, label } = props;
+  const magnitude = Math.abs(grad);
+  const length = magnitude > 0 ? 6 + 44 * Math.min(1, Math.max(0, (Math.log10(magnitude) + 6) / 6)) : 0;
+
+  // Punto medio de la conexión, desplazado en perpendicular para no tapar la línea
+  const dx = to[0] - from[0];
+  const dy = to[1] - from[1];
+  const norm = Math.hypot(dx, dy) || 1;
+  const [ux, uy] = [dx / norm, dy / norm];
+  const [mx, my] = [(from[0] + to[0]) / 2 + uy * 14, (from[1] + to[1]) / 2 - ux * 14];
+  const direction = grad > 0 ? -1 : 1;
+
+  return (
+    <g>
+      {length > 0 && (
+        <line
+          x1={mx - (direction * ux * length) / 2}
+          y1={my - (direction * uy * length) / 2}
+          x2={mx + (direction * ux * length) / 2}
+          y2={my + (direction * uy * length) / 2}
+          stroke="#D97706"
+          strokeWidth={2.5}
+          markerEnd="url(#grad-arrow)"
+        />
+      )}
+      <text x={mx + uy * 12} y={my - ux * 12} fontSize="10" fill="#B45309" textAnchor="middle">
+        ∇{label} {grad.toExponential(1)}
+      </text>
+    </g>
+  );
+}
+
+/** Etiqueta de una señal detectada por el analizador de insights. */
+function InsightChip(props: { label: string }) {
+  return (
+    <span className="px-2 py-0.5 rounded-full bg-amber-50 border border-amber-300 text-amber-800 text-xs">
+      {props.label}
+    </span>
+  );
+}
+
+/**
+ * Opciones del selector de modelo: ejercicios incluidos, sintéticos y dataset propio (si hay).
+ */
+function ModelOptions(props: { customRows?: number }) {
+  return (
+    <>
+      <option value="satisfaction">Satisfacción del Cliente</option>
+      <option value="sales">Predicción de Ventas</option>
+      <option value="salesAmount">Importe de Ventas (regresión)</option>
+      <option value="iris">Flores iris (3 clases)</option>
+      <optgroup label="Sintéticos">
+        {SYNTHETIC_DATASETS.map((name) => (
+          <option key={name} value={name}>
+            {SYNTHETIC_LABELS[name]}
+          </option>
+        ))}
+      </optgroup>
+      {props.customRows !== undefined && <option value="custom">Dataset propio ({props.customRows} filas)</option>}
+    </>
+  );
+}
+
+/**
+ * Componente: comparación de N corridas
+ * - Curvas de error superpuestas (una por corrida; validación punteada)
+ * - Tabla resumen: config, pesos finales, bias y error final
+ */
+function ComparisonPanel(props: { comparison: ExperimentComparison }) {
+  const { runs } = props.comparison;
+  const label = (run: ExperimentResult, i: number) =>
+    `#${i + 1} ${run.config.model} · ${metaActivationLabel(run.meta)} · lr=${run.meta.learningRate}`;
+  const formatWeights = (w: number[]) => {
+    const shown = w.slice(0, 4).map((v) => v.toFixed(3)).join(', ');
+    return w.length > 4 ? `${shown}, … (${w.length})` : shown;
+  };
+
+  return (
+    <div className="flex flex-col gap-4 w-full h-full">
+      <div className="bg-white rounded-xl border border-gray-200 p-3 h-[60%] min-h-[280px]">
+        <ResponsiveContainer width="100%" height="100%">
+          {/* Cada corrida trae su propio history (épocas registradas distintas) → eje X numérico */}
+          <LineChart>
+            <CartesianGrid strokeDasharray="3 3" stroke="#E2E2E2" />
+            <XAxis dataKey="epoch" type="number" domain={[0, 'dataMax']} tick={{ fill: '#555' }} />
+            <YAxis tick={{ fill: '#555' }} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: '#fff',
+                borderRadius: '8px',
+                border: '1px solid #A31F34',
+              }}
+            />
+            <Legend />
+            {runs.map((run, i) => (
+              <Line
+                key={`train-${i}`}
+                data={run.result.history}
+                type="monotone"
+                dataKey="error"
+                name={label(run, i)}
+                stroke={compareColor(i)}
+                strokeWidth={2.2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {runs.map(
+              (run, i) =>
+                run.meta.validation &&
+                run.meta.validation.method !== 'none' && (
+                  <Line
+                    key={`val-${i}`}
+                    data={run.result.history}
+                    type="monotone"
+                    dataKey="valError"
+                    name={`${label(run, i)} (validación)`}
+                    stroke={compareColor(i)}
+                    strokeDasharray="5 4"
+                    strokeWidth={1.6}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                )
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 p-3 overflow-auto">
+        <table className="w-full text-xs text-gray-700 text-right border-collapse">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="font-normal text-left border-b px-1">corrida</th>
+              <th className="font-normal border-b px-1">modelo</th>
+              <th className="font-normal border-b px-1">épocas</th>
+              <th className="font-normal border-b px-1">lr</th>
+              <th className="font-normal border-b px-1">act. / loss</th>
+              <th className="font-normal border-b px-1">seed</th>
+              <th className="font-normal border-b px-1">pesos finales</th>
+              <th className="font-normal border-b px-1">bias</th>
+              <th className="font-normal border-b px-1">error final</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map((run, i) => {
+              const finalError = run.result.history.at(-1)?.error;
+              return (
+                <tr key={i}>
+                  <td className="text-left px-1 py-0.5">
+                    <span
+                      className="inline-block w-3 h-3 rounded-sm mr-1 align-middle"
+                      style={{ backgroundColor: compareColor(i) }}
+                    />
+                    #{i + 1}
+                  </td>
+                  <td className="px-1">{run.config.model}</td>
+                  <td className="px-1">{run.meta.epochs}</td>
+                  <td className="px-1">{run.meta.learningRate}</td>
+                  <td className="px-1">
+                    {metaActivationLabel(run.meta)} / {run.meta.loss ?? 'mse'}
+                  </td>
+                  <td className="px-1">{run.meta.seed ?? '—'}</td>
+                  <td className="px-1 font-mono">[{formatWeights(run.result.weights)}]</td>
+                  <td className="px-1 font-mono">{run.result.bias.toFixed(3)}</td>
+                  <td className="px-1 font-mono">{finalError !== undefined ? finalError.toFixed(5) : '—'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/** Accuracy de una corrida del barrido: binaria o multi-clase (regresión: undefined). */
+const runAccuracy = (run: SweepRun) =>
+  run.experiment.result.metrics?.accuracy ?? run.experiment.result.multiclassMetrics?.accuracy;
+
+/**
+ * Componente: tabla de un barrido de hiperparámetros
+ * - Ordenable por cualquier columna (clic en la cabecera)
+ * - "Cargar" lleva la corrida al single run (gráfica, frontera, red)
+ */
+function SweepTable(props: { runs: SweepRun[]; onLoad: (run: SweepRun) => void }) {
+  const { runs, onLoad } = props;
+  type SortKey = 'rank' | 'learningRate' | 'activation' | 'epochs' | 'seed' | 'finalError' | 'accuracy';
+  const [sort, setSort] = useState<{ key: SortKey; asc: boolean }>({ key: 'rank', asc: true });
+  const pct = (v?: number) => (v !== undefined ? `${(v * 100).toFixed(1)}%` : '—');
+
+  const value = (run: SweepRun, key: SortKey): number | string => {
+    if (key === 'accuracy') return runAccuracy(run) ?? -1;
+    if (key === 'finalError') return run.finalError ?? Infinity;
+    if (key === 'seed') return run.seed ?? -Infinity;
+    return run[key];
+  };
+  const sorted = [...runs].sort((a, b) => {
+    const va = value(a, sort.key);
+    const vb = value(b, sort.key);
+    const cmp =
+      typeof va === 'number' && typeof vb === 'number'
+        ? va < vb ? -1 : va > vb ? 1 : 0
+        : String(va).localeCompare(String(vb));
+    return sort.asc ? cmp : -cmp;
+  });
+
+  const columns: { key: SortKey; label: string }[] = [
+    { key: 'rank', label: '#' },
+    { key: 'learningRate', label: 'lr' },
+    { key: 'activation', label: 'act.' },
+    { key: 'epochs', label: 'épocas' },
+    { key: 'seed', label: 'seed' },
+    { key: 'finalError', label: 'error final' },
+    { key: 'accuracy', label: 'accuracy' },
+  ];
+
+  return (
+    <table className="w-full text-xs text-gray-700 text-right border-collapse">
+      <thead>
+        <tr>
+          {columns.map(({ key, label }) => (
+            <th key={key} className="font-normal text-gray-500 border-b px-1 py-1">
+              <button
+                onClick={() => setSort((s) => ({ key, asc: s.key === key ? !s.asc : true }))}
+                className="hover:text-[#A31F34]"
+              >
+                {label}
+                {sort.key === key ? (sort.asc ? ' ▲' : ' ▼') : ''}
+              </button>
+            </th>
+          ))}
+          <th className="border-b" />
+        </tr>
+      </thead>
+      <tbody>
+        {sorted.map((run) => (
+          <tr key={run.rank} className="hover:bg-gray-50">
+            <td className="px-1 py-0.5">{run.rank}</td>
+            <td className="px-1">{run.learningRate}</td>
+            <td className="px-1">{run.activation}</td>
+            <td className="px-1">{run.epochs}</td>
+            <td className="px-1">{run.seed ?? '—'}</td>
+            <td className="px-1 font-mono">{run.finalError !== null ? run.finalError.toFixed(5) : 'divergió'}</td>
+            <td className="px-1">
+              {pct(runAccuracy(run))}
+            </td>
+            <td className="px-1">
+              <button onClick={() => onLoad(run)} className="text-[#A31F34] hover:underline">
+                Cargar
+              </button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Componente: heatmap learning rate × activación del error final
+ * - Si hay varias épocas/seeds por celda se promedia
+ * - Color en escala log (verde = menor error, rojo = mayor); gris = divergió
+ */
+function SweepHeatmap(props: { runs: SweepRun[] }) {
+  const { runs } = props;
+  const lrs = [...new Set(runs.map((r) => r.learningRate))].sort((a, b) => a - b);
+  const acts = (['sigmoid', 'tanh', 'relu'] as const).filter((fn) => runs.some((r) => r.activation === fn));
+
+  const cells = acts.map((act) =>
+    lrs.map((lr) => {
+      const errors = runs
+        .filter((r) => r.activation === act && r.learningRate === lr && r.finalError !== null)
+        .map((r) => r.finalError as number);
+      return errors.length > 0 ? errors.reduce((a, b) => a + b, 0) / errors.length : null;
+    })
+  );
+
+  // Escala log para que se distingan errores de órdenes de magnitud distintos
+  const logs = cells.flat().filter((v): v is number => v !== null).map((v) => Math.log10(Math.max(v, 1e-12)));
+  const lo = Math.min(...logs);
+  const hi = Math.max(...logs);
+  const color = (v: number | null) => {
+    if (v === null) return '#D1D5DB';
+    const t = hi > lo ? (Math.log10(Math.max(v, 1e-12)) - lo) / (hi - lo) : 0;
+    return `hsl(${Math.round(120 * (1 - t))}, 70%, 75%)`;
+  };
+
+  return (
+    <table className="w-full text-xs text-gray-700 text-center border-collapse">
+      <thead>
+        <tr>
+          <th className="font-normal text-gray-500 text-left">act. \ lr</th>
+          {lrs.map((lr) => (
+            <th key={lr} className="font-normal text-gray-500 px-1">
+              {lr}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {acts.map((act, i) => (
+          <tr key={act}>
+            <th className="font-normal text-gray-500 text-left pr-2">{act}</th>
+            {cells[i].map((v, j) => (
+              <td
+                key={lrs[j]}
+                className="border border-white h-12 font-mono"
+                style={{ backgroundColor: color(v) }}
+                title={v !== null ? `error medio ${v}` : 'divergió'}
+              >
+                {v !== null ? v.toExponential(1) : '—'}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Componente: diagrama de un MLP
+ * - Una columna de nodos por capa (entradas, ocultas, salida)
+ * - Conexiones coloreadas por signo y con grosor según |w|
+ * - Opacidad de cada nodo según su activación para la entrada (x₁, x₂)
+ */
+function NetworkDiagram(props: { layers: LayerParams[]; activations: number[][] }) {
+  const { layers, activations } = props;
+
+  const W = 460;
+  const H = 310;
+  const padX = 55;
+  const padY = 30;
+
+  const sizes = [layers[0]?.weights[0]?.length ?? 0, ...layers.map((l) => l.weights.length)];
+  const colX = (c: number) => padX + (c / Math.max(1, sizes.length - 1)) * (W - 2 * padX);
+  const rowY = (c: number, r: number) => padY + ((r + 0.5) / sizes[c]) * (H - 2 * padY);
+
+  return (
+    <svg width={W} height={H} role="img" aria-label="Visualización de un perceptrón multicapa">
+      <title>MLP: capas, pesos y activaciones</title>
+
+      {/* Conexiones */}
+      {layers.map((layer, l) =>
+        layer.weights.map((row, k) =>
+          row.map((w, j) => (
+            <line
+              key={`${l}-${k}-${j}`}
+              x1={colX(l)}
+              y1={rowY(l, j)}
+              x2={colX(l + 1)}
+              y2={rowY(l + 1, k)}
+              stroke={w >= 0 ? '#16A34A' : '#DC2626'}
+              strokeWidth={Math.min(4, clampStrokeWidth(w) / 2)}
+              opacity={0.7}
+            />
+          ))
+        )
+      )}
+
+      {/* Nodos */}
+      {sizes.map((size, c) =>
+        Array.from({ length: size }, (_, r) => {
+          const a = activations[c]?.[r] ?? 0;
+          return (
+            <circle
+              key={`${c}-${r}`}
+              cx={colX(c)}
+              cy={rowY(c, r)}
+              r={c === 0 ? 12 : 10}
+              fill={c === 0 ? '#A31F34' : `rgba(163,31,52,${Math.min(1, Math.max(0.08, Math.abs(a)))})`}
+              stroke="#A31F34"
+            />
+          );
+        })
+      )}
+
+      {/* Etiquetas */}
+      {sizes.map((_, c) => (
+        <text key={c} x={colX(c) - 14} y={H - 6} fontSize="11" fill="#444">
+          {c === 0 ? 'x' : c === sizes.length - 1 ? 'ŷ' : `h${c}`}
+        </text>
+      ))}
+    </svg>
+  );
+}
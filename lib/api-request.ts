@@ -0,0 +1,69 @@
+// lib/api-request.ts
+
+import { NextResponse } from 'next/server';
+import { DATASET_LIMITS } from './dataset-upload';
+import { parseDatasetBody, resolveTask } from './train-request';
+import type { Dataset } from './types';
+
+/**
+ * Lectura de bodies comunes a los POST de la API (solo servidor).
+ *
+ * Devuelven el contenido ya validado o la respuesta de error lista para
+ * devolver tal cual desde el route handler.
+ */
+export type BodyReadResult<T> =
+    | { value: T; response?: undefined }
+    | { value?: undefined; response: NextResponse };
+
+/** Error de validación → { error } (mismo formato en todas las rutas). */
+export function badRequest(message: string, status = 400) {
+    return NextResponse.json({ error: message }, { status, headers: { 'Cache-Control': 'no-store' } });
+}
+
+/**
+ * Lee el body como texto con límite de tamaño (413 si lo supera).
+ * `subject` nombra lo que se envía en el mensaje de error ("El dataset", "El body", ...).
+ */
+export async function readTextBody(req: Request, maxBytes: number, subject: string): Promise<BodyReadResult<string>> {
+    // Límite de tamaño antes de leer/parsear
+    const contentLength = Number(req.headers.get('content-length') || 0);
+    if (contentLength > maxBytes) {
+        return { response: badRequest(`${subject} supera ${maxBytes} bytes.`, 413) };
+    }
+
+    let body: string;
+    try {
+        body = await req.text();
+    } catch {
+        return { response: badRequest('No se pudo leer el body de la petición.') };
+    }
+    if (body.length > maxBytes) {
+        return { response: badRequest(`${subject} supera ${maxBytes} bytes.`, 413) };
+    }
+
+    return { value: body };
+}
+
+/** Igual que readTextBody, pero parsea JSON (400 si no es válido). */
+export async function readJsonBody(req: Request, maxBytes: number, subject: string): Promise<BodyReadResult<unknown>> {
+    const read = await readTextBody(req, maxBytes, subject);
+    if (read.response) return read;
+
+    try {
+        return { value: JSON.parse(read.value) as unknown };
+    } catch {
+        return { response: badRequest('El body no es JSON válido.') };
+    }
+}
+
+/**
+ * Dataset del usuario en el body de POST /api/train, /api/train/stream y /api/sweep:
+ * CSV directo o JSON ({ X, y } / { csv }); la tarea sale de la query (task=regression).
+ */
+export async function readDatasetBody(req: Request, searchParams: URLSearchParams): Promise<BodyReadResult<Dataset>> {
+    const read = await readTextBody(req, DATASET_LIMITS.maxBytes, 'El dataset');
+    if (read.response) return read;
+
+    const parsed = parseDatasetBody(read.value, req.headers.get('content-type') || '', resolveTask(searchParams));
+    return parsed.dataset ? { value: parsed.dataset } : { response: badRequest(parsed.error) };
+}
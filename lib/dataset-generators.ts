@@ -0,0 +1,158 @@
+// lib/dataset-generators.ts
+
+import { mulberry32 } from './nn-random';
+import type { SyntheticDatasetName, SyntheticDatasetOptions } from './types';
+
+/**
+ * Datasets sintéticos 2D (binarios) para mostrar qué NO puede separar
+ * una sola neurona y qué sí aprende un MLP.
+ *
+ * Todos devuelven la misma forma que getSalesDataset(): { X: [x1, x2][], y: 0|1[] }
+ * y son deterministas para un mismo dataSeed.
+ */
+type Dataset2D = { X: [number, number][], y: number[] };
+
+export const SYNTHETIC_DATASETS: SyntheticDatasetName[] = ['xor', 'moons', 'circles', 'spirals', 'blobs'];
+
+/** Límites razonables para la UI (SVG) y el entrenamiento interactivo. */
+export const SYNTHETIC_LIMITS = { minSamples: 4, maxSamples: 1_000, maxNoise: 1 } as const;
+
+/** Normal estándar (Box-Muller) a partir de un generador uniforme. */
+function gaussian(rand: () => number): number {
+    const u = 1 - rand(); // (0, 1]: evita log(0)
+    const v = rand();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Reparte n samples entre las dos clases (clase 0 recibe el sobrante). */
+const split = (n: number) => [Math.ceil(n / 2), Math.floor(n / 2)] as const;
+
+/**
+ * XOR: puntos uniformes en [-1, 1]²; clase 1 si x1 y x2 tienen signo distinto.
+ * El ruido se suma después de etiquetar (desplaza puntos a través de los ejes).
+ */
+function makeXor(n: number, noise: number, rand: () => number): Dataset2D {
+    const X: [number, number][] = [];
+    const y: number[] = [];
+    for (let i = 0; i < n; i++) {
+        const x1 = rand() * 2 - 1;
+        const x2 = rand() * 2 - 1;
+        y.push(x1 * x2 > 0 ? 0 : 1);
+        X.push([x1 + noise * gaussian(rand), x2 + noise * gaussian(rand)]);
+    }
+    return { X, y };
+}
+
+/** Dos lunas entrelazadas (como make_moons de scikit-learn). */
+function makeMoons(n: number, noise: number, rand: () => number): Dataset2D {
+    const [n0, n1] = split(n);
+    const X: [number, number][] = [];
+    const y: number[] = [];
+    for (let i = 0; i < n0; i++) {
+        const t = (Math.PI * i) / Math.max(1, n0 - 1);
+        X.push([Math.cos(t) + noise * gaussian(rand), Math.sin(t) + noise * gaussian(rand)]);
+        y.push(0);
+    }
+    for (let i = 0; i < n1; i++) {
+        const t = (Math.PI * i) / Math.max(1, n1 - 1);
+        X.push([1 - Math.cos(t) + noise * gaussian(rand), 0.5 - Math.sin(t) + noise * gaussian(rand)]);
+        y.push(1);
+    }
+    return { X, y };
+}
+
+/** Círculos concéntricos: exterior (r = 1) clase 0, interior (r = 0.5) clase 1. */
+function makeCircles(n: number, noise: number, rand: () => number): Dataset2D {
+    const [n0, n1] = split(n);
+    const X: [number, number][] = [];
+    const y: number[] = [];
+    [
+        { count: n0, r: 1, label: 0 },
+        { count: n1, r: 0.5, label: 1 },
+    ].forEach(({ count, r, label }) => {
+        for (let i = 0; i < count; i++) {
+            const t = (2 * Math.PI * i) / count;
+            X.push([r * Math.cos(t) + noise * gaussian(rand), r * Math.sin(t) + noise * gaussian(rand)]);
+            y.push(label);
+        }
+    });
+    return { X, y };
+}
+
+/** Dos espirales entrelazadas (la segunda rotada π). */
+function makeSpirals(n: number, noise: number, rand: () => number): Dataset2D {
+    const [n0, n1] = split(n);
+    const X: [number, number][] = [];
+    const y: number[] = [];
+    [
+        { count: n0, phase: 0, label: 0 },
+        { count: n1, phase: Math.PI, label: 1 },
+    ].forEach(({ count, phase, label }) => {
+        for (let i = 0; i < count; i++) {
+            const r = (i + 1) / count; // radio en (0, 1]
+            const t = 1.75 * 2 * Math.PI * r + phase; // ~1.75 vueltas
+            X.push([r * Math.sin(t) + noise * gaussian(rand), r * Math.cos(t) + noise * gaussian(rand)]);
+            y.push(label);
+        }
+    });
+    return { X, y };
+}
+
+/**
+ * Dos nubes gaussianas centradas en (-1, -1) y (1, 1).
+ * Aquí el ruido es la dispersión extra: σ = 0.4 + noise.
+ */
+function makeBlobs(n: number, noise: number, rand: () => number): Dataset2D {
+    const [n0, n1] = split(n);
+    const sigma = 0.4 + noise;
+    const X: [number, number][] = [];
+    const y: number[] = [];
+    [
+        { count: n0, c: -1, label: 0 },
+        { count: n1, c: 1, label: 1 },
+    ].forEach(({ count, c, label }) => {
+        for (let i = 0; i < count; i++) {
+            X.push([c + sigma * gaussian(rand), c + sigma * gaussian(rand)]);
+            y.push(label);
+        }
+    });
+    return { X, y };
+}
+
+/**
+ * Completa y acota las opciones (n y noise dentro de SYNTHETIC_LIMITS).
+ * Defaults: n = 200, noise = 0.1, dataSeed = 0.
+ */
+export function resolveSyntheticOptions(options: Partial<SyntheticDatasetOptions> = {}): SyntheticDatasetOptions {
+    const { n: nRaw = 200, noise: noiseRaw = 0.1, dataSeed: dataSeedRaw = 0 } = options;
+
+    const n = Number.isFinite(nRaw)
+        ? Math.min(Math.max(SYNTHETIC_LIMITS.minSamples, Math.floor(nRaw)), SYNTHETIC_LIMITS.maxSamples)
+        : 200;
+    const noise = Number.isFinite(noiseRaw) ? Math.min(Math.max(0, noiseRaw), SYNTHETIC_LIMITS.maxNoise) : 0.1;
+    const dataSeed = Number.isFinite(dataSeedRaw) ? Math.floor(dataSeedRaw) : 0;
+
+    return { n, noise, dataSeed };
+}
+
+/**
+ * Genera un dataset sintético (mismas opciones + dataSeed → mismo dataset).
+ */
+export function generateDataset(name: SyntheticDatasetName, options: Partial<SyntheticDatasetOptions> = {}): Dataset2D {
+    const { n, noise, dataSeed } = resolveSyntheticOptions(options);
+    const rand = mulberry32(dataSeed);
+
+    switch (name) {
+        case 'moons':
+            return makeMoons(n, noise, rand);
+        case 'circles':
+            return makeCircles(n, noise, rand);
+        case 'spirals':
+            return makeSpirals(n, noise, rand);
+        case 'blobs':
+            return makeBlobs(n, noise, rand);
+        case 'xor':
+        default:
+            return makeXor(n, noise, rand);
+    }
+}
@@ -0,0 +1,125 @@
+// lib/dataset-upload.ts
+
+import type { Dataset, TaskType } from './types';
+
+/**
+ * Límites para datasets subidos por el usuario.
+ * El laboratorio es didáctico: datasets pequeños → entrenamiento interactivo.
+ */
+export const DATASET_LIMITS = {
+    /** Tamaño máximo del cuerpo (CSV o JSON). */
+    maxBytes: 200_000,
+    minRows: 2,
+    maxRows: 1_000,
+    minFeatures: 1,
+    maxFeatures: 10,
+    /** Clases como máximo (etiquetas 0..maxClasses-1). */
+    maxClasses: 10,
+} as const;
+
+/** Resultado de parsear/validar: dataset listo o mensaje de error para el usuario. */
+export type DatasetParseResult = { dataset: Dataset; error?: undefined } | { dataset?: undefined; error: string };
+
+const toNumber = (cell: string) => (cell.trim() === '' ? NaN : Number(cell.trim()));
+
+/**
+ * Parsea un CSV: una fila por sample, última columna = etiqueta
+ * (0/1 o clase 0..K-1; en regresión, el valor objetivo).
+ * - separador "," o ";" (se detecta en la primera línea)
+ * - cabecera opcional (si la primera fila no es numérica se ignora)
+ */
+export function parseCsvDataset(text: string, task: TaskType = 'classification'): DatasetParseResult {
+    if (text.length > DATASET_LIMITS.maxBytes) {
+        return { error: `El archivo supera ${DATASET_LIMITS.maxBytes} bytes.` };
+    }
+
+    const lines = text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean);
+    if (lines.length === 0) return { error: 'El CSV está vacío.' };
+
+    const separator = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+    const rows = lines.map((line) => line.split(separator));
+
+    // Cabecera opcional
+    if (rows[0].some((cell) => !Number.isFinite(toNumber(cell)))) rows.shift();
+
+    const X: number[][] = [];
+    const y: number[] = [];
+    for (let i = 0; i < rows.length; i++) {
+        const values = rows[i].map(toNumber);
+        const bad = values.findIndex((v) => !Number.isFinite(v));
+        if (bad !== -1) {
+            return { error: `Fila ${i + 1}, columna ${bad + 1}: "${rows[i][bad].trim()}" no es numérico.` };
+        }
+        X.push(values.slice(0, -1));
+        y.push(values[values.length - 1]);
+    }
+
+    return validateDataset({ X, y }, task);
+}
+
+/**
+ * Valida un dataset `{ X, y }` (JSON o ya parseado de CSV):
+ * columnas numéricas, mismo número de características por fila,
+ * etiquetas de clase y límites de tamaño.
+ *
+ * Etiquetas: enteros 0..K-1 (0/1 = binario) o vectores one-hot, que se
+ * convierten al índice de su clase. En regresión, cualquier número finito.
+ */
+export function validateDataset(raw: unknown, task: TaskType = 'classification'): DatasetParseResult {
+    if (typeof raw !== 'object' || raw === null) return { error: 'Se esperaba un objeto { X, y }.' };
+
+    const { X, y } = raw as { X?: unknown; y?: unknown };
+    if (!Array.isArray(X) || !Array.isArray(y)) return { error: 'X e y deben ser arrays.' };
+    if (X.length !== y.length) return { error: `X tiene ${X.length} filas pero y tiene ${y.length} etiquetas.` };
+
+    const { minRows, maxRows, minFeatures, maxFeatures, maxClasses } = DATASET_LIMITS;
+    if (X.length < minRows || X.length > maxRows) {
+        return { error: `El dataset debe tener entre ${minRows} y ${maxRows} filas (tiene ${X.length}).` };
+    }
+
+    const nFeatures = Array.isArray(X[0]) ? X[0].length : 0;
+    if (nFeatures < minFeatures || nFeatures > maxFeatures) {
+        return { error: `Se admiten entre ${minFeatures} y ${maxFeatures} características (hay ${nFeatures}).` };
+    }
+
+    const labels: number[] = [];
+    for (let i = 0; i < X.length; i++) {
+        const row = X[i];
+        if (!Array.isArray(row) || row.length !== nFeatures) {
+            return { error: `La fila ${i + 1} no tiene ${nFeatures} características.` };
+        }
+        if (!row.every((v) => typeof v === 'number' && Number.isFinite(v))) {
+            return { error: `La fila ${i + 1} contiene valores no numéricos.` };
+        }
+
+        if (task === 'regression') {
+            if (typeof y[i] !== 'number' || !Number.isFinite(y[i])) {
+                return { error: `El valor objetivo de la fila ${i + 1} debe ser numérico (es ${JSON.stringify(y[i])}).` };
+            }
+            labels.push(y[i]);
+            continue;
+        }
+
+        const label = oneHotIndex(y[i]) ?? y[i];
+        if (typeof label !== 'number' || !Number.isInteger(label) || label < 0 || label >= maxClasses) {
+            return {
+                error:
+                    `La etiqueta de la fila ${i + 1} debe ser una clase entera entre 0 y ${maxClasses - 1} ` +
+                    `o un vector one-hot (es ${JSON.stringify(y[i])}).`,
+            };
+        }
+        labels.push(label);
+    }
+
+    return { dataset: { X: X as number[][], y: labels } };
+}
+
+/** Índice del 1 en un vector one-hot ([0, 1, 0] → 1); undefined si no lo es. */
+function oneHotIndex(label: unknown): number | undefined {
+    if (!Array.isArray(label) || label.length < 2) return undefined;
+    if (!label.every((v) => v === 0 || v === 1)) return undefined;
+    return label.filter((v) => v === 1).length === 1 ? label.indexOf(1) : undefined;
+}
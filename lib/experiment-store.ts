@@ -0,0 +1,160 @@
+// lib/experiment-store.ts
+
+import { randomUUID } from 'node:crypto';
+import { access, mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { NextResponse } from 'next/server';
+import type { ActivationFn, ExperimentResult, ExperimentSummary, StoredExperiment } from './types';
+
+/**
+ * Store de experimentos basado en archivos JSON (solo servidor).
+ *
+ * Cada experimento ocupa dos archivos en EXPERIMENTS_DIR (default: .data/experiments):
+ * - <id>.json: StoredExperiment completo (history incluido)
+ * - <id>.summary.json: ExperimentSummary (el listado no necesita parsear el history)
+ */
+export const EXPERIMENT_STORE_LIMITS = {
+    /** Tamaño máximo del body al guardar. */
+    maxBytes: 5_000_000,
+    maxNameLength: 80,
+} as const;
+
+/** Filtros del listado (vacío = sin filtrar). */
+export interface ExperimentFilter {
+    model?: string;
+    activation?: ActivationFn;
+}
+
+const storeDir = () => process.env.EXPERIMENTS_DIR || path.join(process.cwd(), '.data', 'experiments');
+
+/** Ids generados por el store: evita rutas arbitrarias (path traversal). */
+const ID_PATTERN = /^[a-z0-9-]{1,64}$/;
+export const isValidExperimentId = (id: string) => ID_PATTERN.test(id);
+
+const fullPath = (id: string) => path.join(storeDir(), `${id}.json`);
+const summaryPath = (id: string) => path.join(storeDir(), `${id}.summary.json`);
+
+/**
+ * Valida lo mínimo para que un ExperimentResult se pueda volver a cargar en la UI.
+ */
+export function validateExperimentResult(
+    raw: unknown
+): { experiment: ExperimentResult; error?: undefined } | { experiment?: undefined; error: string } {
+    if (typeof raw !== 'object' || raw === null) return { error: 'Se esperaba un ExperimentResult { config, meta, result }.' };
+
+    const { config, meta, result } = raw as Partial<Record<keyof ExperimentResult, Record<string, unknown>>>;
+    if (typeof config !== 'object' || config === null || typeof config.model !== 'string') {
+        return { error: 'config.model es obligatorio.' };
+    }
+    if (typeof config.activation !== 'string' || typeof config.epochs !== 'number' || typeof config.learningRate !== 'number') {
+        return { error: 'config debe incluir activation, epochs y learningRate.' };
+    }
+    if (typeof meta !== 'object' || meta === null) return { error: 'meta es obligatorio.' };
+    if (typeof result !== 'object' || result === null || !Array.isArray(result.history) || !Array.isArray(result.weights)) {
+        return { error: 'result debe incluir history y weights.' };
+    }
+
+    return { experiment: raw as ExperimentResult };
+}
+
+function summarize(stored: StoredExperiment): ExperimentSummary {
+    const { config, result } = stored.experiment;
+    // Accuracy binaria o multi-clase (la regresión no tiene)
+    const accuracy = result.metrics?.accuracy ?? result.multiclassMetrics?.accuracy;
+    return {
+        id: stored.id,
+        name: stored.name,
+        createdAt: stored.createdAt,
+        model: config.model,
+        activation: config.activation,
+        epochs: config.epochs,
+        learningRate: config.learningRate,
+        finalError: result.history.at(-1)?.error ?? null,
+        ...(accuracy !== undefined ? { accuracy } : {}),
+        ...(result.regressionMetrics ? { r2: result.regressionMetrics.r2 } : {}),
+    };
+}
+
+/** Guarda un experimento y devuelve su resumen. */
+export async function createExperiment(experiment: ExperimentResult, name?: string): Promise<ExperimentSummary> {
+    const createdAt = new Date().toISOString();
+    // Prefijo temporal → los ids se ordenan por fecha de creación
+    const id = `${Date.now().toString(36)}-${randomUUID().slice(0, 8)}`;
+    const stored: StoredExperiment = {
+        id,
+        name: (name?.trim() || `${experiment.config.model} · ${experiment.config.activation}`).slice(
+            0,
+            EXPERIMENT_STORE_LIMITS.maxNameLength
+        ),
+        createdAt,
+        experiment,
+    };
+    const summary = summarize(stored);
+
+    await mkdir(storeDir(), { recursive: true });
+    await writeFile(fullPath(id), JSON.stringify(stored));
+    await writeFile(summaryPath(id), JSON.stringify(summary));
+    return summary;
+}
+
+/** Lista los resúmenes (más recientes primero), opcionalmente filtrados. */
+export async function listExperiments(filter: ExperimentFilter = {}): Promise<ExperimentSummary[]> {
+    let files: string[];
+    try {
+        files = await readdir(storeDir());
+    } catch {
+        return []; // store vacío (aún no existe el directorio)
+    }
+
+    const summaries = await Promise.all(
+        files
+            .filter((f) => f.endsWith('.summary.json'))
+            .map(async (f) => {
+                try {
+                    return JSON.parse(await readFile(path.join(storeDir(), f), 'utf8')) as ExperimentSummary;
+                } catch {
+                    return null; // archivo corrupto o borrado a mitad del listado
+                }
+            })
+    );
+
+    return summaries
+        .filter((s): s is ExperimentSummary => s !== null)
+        .filter((s) => !filter.model || s.model === filter.model)
+        .filter((s) => !filter.activation || s.activation === filter.activation)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Experimento completo o null si no existe. */
+export async function getExperiment(id: string): Promise<StoredExperiment | null> {
+    if (!isValidExperimentId(id)) return null;
+    try {
+        return JSON.parse(await readFile(fullPath(id), 'utf8')) as StoredExperiment;
+    } catch {
+        return null;
+    }
+}
+
+/** Borra un experimento; false si no existía. */
+export async function deleteExperiment(id: string): Promise<boolean> {
+    if (!isValidExperimentId(id)) return false;
+    try {
+        await access(fullPath(id));
+    } catch {
+        return false;
+    }
+    await rm(fullPath(id), { force: true });
+    await rm(summaryPath(id), { force: true });
+    return true;
+}
+
+/** Error de E/S del store → 500 para las rutas de /api/experiments (el detalle solo va al log). */
+export function storeError(message: string, error: unknown) {
+    if (error instanceof Error) {
+        console.error(message, error.message);
+    } else {
+        console.error(message, error);
+    }
+
+    return NextResponse.json({ error: message }, { status: 500, headers: { 'Cache-Control': 'no-store' } });
+}
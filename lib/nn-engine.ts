@@ -0,0 +1,683 @@
+// lib/nn-engine.ts
+
+import type {
+    ActivationFn,
+    Dataset,
+    EarlyStoppingConfig,
+    HiddenLayerConfig,
+    LayerActivation,
+    LayerParams,
+    GradientSnapshot,
+    LayerWeights,
+    LossFn,
+    LrScheduleConfig,
+    NormalizationName,
+    OptimizerConfig,
+    StopReason,
+    TaskType,
+    TrainingPoint,
+    TrainingResult,
+    ValidationSplitConfig,
+} from './types';
+import { categoricalCrossEntropy, lossGradient, lossValue } from './nn-losses';
+import { createOptimizer, resolveOptimizerConfig } from './nn-optimizers';
+import { learningRateAt, resolveLrSchedule } from './nn-schedules';
+import { applyScaler, fitScaler } from './nn-preprocessing';
+import { mulberry32, shuffleInPlace } from './nn-random';
+import { resolveValidationSplit, splitIndices } from './nn-split';
+import { classificationReport, multiclassReport, regressionReport } from './nn-metrics';
+
+function sigmoid(x: number): number {
+    return 1 / (1 + Math.exp(-x));
+}
+function tanh(x: number): number {
+    return Math.tanh(x);
+}
+function relu(x: number): number {
+    return x > 0 ? x : 0;
+}
+
+export function activationForward(z: number, fn: ActivationFn): number {
+    switch (fn) {
+        case 'tanh':
+            return tanh(z);
+        case 'relu':
+            return relu(z);
+        case 'linear':
+            return z;
+        case 'sigmoid':
+        default:
+            return sigmoid(z);
+    }
+}
+
+/** Softmax estable (resta el máximo antes de exponenciar). */
+function softmax(z: number[]): number[] {
+    const max = Math.max(...z);
+    const exps = z.map((v) => Math.exp(v - max));
+    const sum = exps.reduce((acc, v) => acc + v, 0);
+    return exps.map((v) => v / sum);
+}
+
+/**
+ * Derivadas (en términos de salida cuando conviene):
+ * - sigmoid': yHat * (1 - yHat)
+ * - tanh': 1 - yHat^2
+ * - relu': z > 0 ? 1 : 0
+ * - linear': 1
+ */
+export function activationDerivative(z: number, yHat: number, fn: ActivationFn): number {
+    switch (fn) {
+        case 'tanh':
+            return 1 - yHat * yHat;
+        case 'relu':
+            return z > 0 ? 1 : 0;
+        case 'linear':
+            return 1;
+        case 'sigmoid':
+        default:
+            return yHat * (1 - yHat);
+    }
+}
+
+/**
+ * Inicializa la red: capas ocultas + capa de salida (una neurona, o una por
+ * clase con softmax).
+ *
+ * - Una sola neurona: pesos y bias en [0, 1) (como los ejercicios originales).
+ * - MLP o softmax: inicialización Xavier uniforme, centrada en 0, para romper la
+ *   simetría entre neuronas y evitar saturar las activaciones desde el principio.
+ */
+export function initNetwork(
+    nInputs: number,
+    hidden: HiddenLayerConfig[],
+    outputActivation: LayerActivation,
+    rand: () => number,
+    outputUnits = 1
+): LayerParams[] {
+    const specs: { units: number; activation: LayerActivation }[] = [
+        ...hidden,
+        { units: outputUnits, activation: outputActivation },
+    ];
+    const xavier = hidden.length > 0 || outputUnits > 1;
+
+    let fanIn = nInputs;
+    return specs.map(({ units, activation }) => {
+        const limit = Math.sqrt(6 / (fanIn + units));
+        const init = () => (xavier ? (rand() * 2 - 1) * limit : rand());
+
+        const weights: number[][] = [];
+        const biases: number[] = [];
+        for (let k = 0; k < units; k++) {
+            weights.push(Array.from({ length: fanIn }, init));
+            biases.push(xavier ? 0 : rand());
+        }
+
+        fanIn = units;
+        return { weights, biases, activation };
+    });
+}
+
+/**
+ * Forward pass completo.
+ * Devuelve z de cada capa y las activaciones (activations[0] es la entrada).
+ */
+export function forwardNetwork(layers: LayerParams[], x: number[]) {
+    const zs: number[][] = [];
+    const activations: number[][] = [x];
+
+    for (const layer of layers) {
+        const input = activations[activations.length - 1];
+        const z = layer.weights.map((row, k) => {
+            let sum = 0;
+            for (let j = 0; j < row.length; j++) sum += input[j] * row[j];
+            return sum + layer.biases[k];
+        });
+        zs.push(z);
+        const { activation } = layer;
+        activations.push(activation === 'softmax' ? softmax(z) : z.map((v) => activationForward(v, activation)));
+    }
+
+    return { zs, activations };
+}
+
+/** Salida ŷ de la red para una entrada. */
+export function predictNetwork(layers: LayerParams[], x: number[]): number {
+    const { activations } = forwardNetwork(layers, x);
+    return activations[activations.length - 1][0];
+}
+
+/** Salida completa de la red (con softmax: una probabilidad por clase). */
+export function predictProbabilities(layers: LayerParams[], x: number[]): number[] {
+    const { activations } = forwardNetwork(layers, x);
+    return activations[activations.length - 1];
+}
+
+/** Índice del mayor valor (clase predicha en multi-clase). */
+export function argmax(values: number[]): number {
+    let best = 0;
+    for (let k = 1; k < values.length; k++) if (values[k] > values[best]) best = k;
+    return best;
+}
+
+/** Clases de un dataset: etiquetas 0..K-1 → K (mínimo 2). */
+export function numClasses(y: number[]): number {
+    return y.reduce((acc, label) => Math.max(acc, Math.floor(label) + 1), 2);
+}
+
+/**
+ * Activación de la salida: softmax con una neurona por clase (cce), identidad en
+ * regresión, sigmoid con bce y, si no, la activación elegida.
+ * BCE espera probabilidades: con tanh/ReLU ŷ sale de (0, 1) y el gradiente recortado es 0 → no aprende.
+ */
+export function outputActivationFor(
+    activation: ActivationFn,
+    loss: LossFn,
+    task: TaskType,
+    classes: number
+): LayerActivation {
+    if (classes > 1) return 'softmax';
+    if (task === 'regression') return 'linear';
+    return loss === 'bce' ? 'sigmoid' : activation;
+}
+
+/**
+ * dL/dz de la neurona de salida: dL/dŷ * f'(z).
+ * Con sigmoid + BCE la cadena se simplifica a ŷ - y (más estable numéricamente).
+ */
+function outputDelta(z: number, yHat: number, target: number, fn: ActivationFn, loss: LossFn): number {
+    if (loss === 'bce' && fn === 'sigmoid') return yHat - target;
+    return lossGradient(yHat, target, loss) * activationDerivative(z, yHat, fn);
+}
+
+/**
+ * Backpropagation para un sample.
+ * Devuelve dL/dW y dL/db con la misma forma que las capas.
+ */
+function backward(
+    layers: LayerParams[],
+    zs: number[][],
+    activations: number[][],
+    target: number,
+    loss: LossFn
+): LayerWeights[] {
+    const grads: LayerWeights[] = new Array(layers.length);
+
+    // Delta de salida: dL/dz = dL/dŷ * f'(z)
+    // Softmax + categorical cross-entropy: dL/dz = p - onehot(y)
+    const out = layers.length - 1;
+    const outActivation = layers[out].activation;
+    let delta =
+        outActivation === 'softmax'
+            ? activations[out + 1].map((p, k) => p - (k === target ? 1 : 0))
+            : [outputDelta(zs[out][0], activations[out + 1][0], target, outActivation, loss)];
+
+    for (let l = out; l >= 0; l--) {
+        const input = activations[l];
+        grads[l] = {
+            weights: delta.map((d) => input.map((a) => d * a)),
+            biases: [...delta],
+        };
+
+        // Propagar hacia la capa anterior (con los pesos antes del update)
+        if (l > 0) {
+            const prev = layers[l - 1];
+            const current = delta;
+            delta = input.map((a, j) => {
+                let sum = 0;
+                for (let k = 0; k < current.length; k++) sum += layers[l].weights[k][j] * current[k];
+                // Las capas ocultas nunca son softmax (solo la salida)
+                return sum * activationDerivative(zs[l - 1][j], a, prev.activation as ActivationFn);
+            });
+        }
+    }
+
+    return grads;
+}
+
+/** Gradientes a cero con la misma forma que las capas (acumulador de batch). */
+function zeroGradients(layers: LayerParams[]): LayerWeights[] {
+    return layers.map((layer) => ({
+        weights: layer.weights.map((row) => row.map(() => 0)),
+        biases: layer.biases.map(() => 0),
+    }));
+}
+
+/**
+ * Resumen de los gradientes acumulados en una época (suma por sample → promedio).
+ */
+function gradientSnapshot(sum: LayerWeights[], samples: number): GradientSnapshot {
+    const n = Math.max(1, samples);
+    const layerNorms = sum.map((g) => {
+        let sq = 0;
+        g.weights.forEach((row, k) => {
+            for (const v of row) sq += (v / n) ** 2;
+            sq += (g.biases[k] / n) ** 2;
+        });
+        return Math.sqrt(sq);
+    });
+    const output = sum[sum.length - 1];
+
+    return {
+        weights: output.weights[0].map((v) => v / n),
+        bias: output.biases[0] / n,
+        norm: Math.sqrt(layerNorms.reduce((acc, v) => acc + v * v, 0)),
+        ...(sum.length > 1 ? { layerNorms } : {}),
+    };
+}
+
+/**
+ * Pérdida y accuracy sobre un subconjunto del dataset, sin actualizar pesos.
+ * Clase predicha: ŷ ≥ 0.5 (binario) o argmax de la softmax (multi-clase).
+ * En regresión (salida lineal) solo hay pérdida.
+ */
+function evaluate(
+    layers: LayerParams[],
+    X: number[][],
+    y: number[],
+    indices: number[],
+    loss: LossFn
+): { valError: number; valAccuracy?: number } {
+    const outActivation = layers[layers.length - 1].activation;
+    const multiclass = outActivation === 'softmax';
+    let total = 0;
+    let hits = 0;
+    for (const i of indices) {
+        const probs = predictProbabilities(layers, X[i]);
+        total += multiclass ? categoricalCrossEntropy(probs, y[i]) : lossValue(probs[0], y[i], loss);
+        if ((multiclass ? argmax(probs) : probs[0] >= 0.5 ? 1 : 0) === y[i]) hits++;
+    }
+    const valError = total / indices.length;
+    return outActivation === 'linear' ? { valError } : { valError, valAccuracy: hits / indices.length };
+}
+
+/** Snapshot defensivo de pesos (evita mutaciones accidentales). */
+function snapshotLayers(layers: LayerParams[]): LayerWeights[] {
+    return layers.map((layer) => ({
+        weights: layer.weights.map((row) => [...row]),
+        biases: [...layer.biases],
+    }));
+}
+
+/** Vuelve a un snapshot (in-place: las referencias a cada capa siguen siendo válidas). */
+function restoreLayers(layers: LayerParams[], snapshot: LayerWeights[]) {
+    snapshot.forEach((snap, l) => {
+        layers[l].weights = snap.weights.map((row) => [...row]);
+        layers[l].biases = [...snap.biases];
+    });
+}
+
+/** ¿Todos los pesos y bias son finitos? (NaN/Infinity = el entrenamiento divergió) */
+function layersFinite(layers: LayerParams[]): boolean {
+    return layers.every(
+        (layer) => layer.biases.every(Number.isFinite) && layer.weights.every((row) => row.every(Number.isFinite))
+    );
+}
+
+/** Pérdidas válidas en regresión (el resto cae a mse). */
+const REGRESSION_LOSSES = new Set<LossFn>(['mse', 'mae', 'huber']);
+
+/**
+ * Error "que explota": mayor que factor × el error de los pesos iniciales
+ * y que un mínimo (con etiquetas 0/1, un error > 10 ya es basura).
+ * En regresión el mínimo se escala con el objetivo (ver explodingMinError).
+ */
+const EXPLODING_LOSS = { factor: 100, minError: 10 } as const;
+
+/**
+ * Mínimo del error "que explota" según la escala del objetivo: en regresión,
+ * minError × media de y² (el error de predecir siempre 0); en clasificación, minError.
+ */
+function explodingMinError(y: number[], regression: boolean): number {
+    if (!regression || y.length === 0) return EXPLODING_LOSS.minError;
+    const meanSquare = y.reduce((acc, v) => acc + v * v, 0) / y.length;
+    return EXPLODING_LOSS.minError * Math.max(1, meanSquare);
+}
+
+/**
+ * Completa y acota el early stopping. Sin patience válida → desactivado (undefined).
+ * minDelta default: 0 (cualquier mejora cuenta).
+ */
+export function resolveEarlyStopping(config?: Partial<EarlyStoppingConfig>): EarlyStoppingConfig | undefined {
+    const patience = config?.patience;
+    if (patience === undefined || !Number.isFinite(patience) || patience < 1) return undefined;
+
+    const minDelta = config?.minDelta;
+    return {
+        patience: Math.floor(patience),
+        minDelta: minDelta !== undefined && Number.isFinite(minDelta) ? Math.max(0, minDelta) : 0,
+    };
+}
+
+/**
+ * Opciones del motor de entrenamiento.
+ * Los modelos (ventas, satisfacción, ...) solo aportan dataset y punto de prueba.
+ */
+export interface TrainOptions {
+    /**
+     * Tipo de tarea (default: classification).
+     * regression: salida lineal (identidad) y pérdida mse | mae | huber
+     * (las de clasificación caen a mse); métricas R²/MAE/RMSE.
+     */
+    task?: TaskType;
+
+    learningRate?: number; // Tasa de aprendizaje
+    epochs?: number; // Número de épocas
+    logEvery?: number; // Cada cuántas épocas guardar un punto en history
+    seed?: number; // Semilla opcional para reproducibilidad
+
+    /** Activación de la neurona de salida (default: sigmoid). */
+    activation?: ActivationFn;
+
+    /** Capas ocultas del MLP (default: ninguna = una sola neurona). */
+    hiddenLayers?: HiddenLayerConfig[];
+
+    /**
+     * Función de pérdida (default: mse).
+     * cce = multi-clase: la salida pasa a ser softmax con una neurona por clase
+     * (y `activation` solo se usa en las capas ocultas sin activación propia).
+     * bce = la salida es siempre sigmoid (BCE espera probabilidades en (0, 1)).
+     */
+    loss?: LossFn;
+
+    /**
+     * Samples por actualización de pesos (default: 1).
+     * - 1: SGD puro
+     * - 1 < batchSize < n: mini-batch
+     * - batchSize >= n: full-batch (un update por época)
+     */
+    batchSize?: number;
+
+    /** Barajar el orden de los samples en cada época (usa el PRNG con seed). */
+    shuffle?: boolean;
+
+    /** Optimizador y sus hiperparámetros (default: sgd). */
+    optimizer?: Partial<OptimizerConfig>;
+
+    /** Schedule de learning rate por época (default: constant). */
+    lrSchedule?: Partial<LrScheduleConfig>;
+
+    /**
+     * Normalización de X (default: none). El scaler se ajusta sobre el dataset
+     * y se aplica también a testInput; queda guardado en result.scaler.
+     */
+    normalization?: NormalizationName;
+
+    /**
+     * Split train/validación (default: none). Solo se entrena con la parte de
+     * train; la validación se evalúa en cada punto del history.
+     */
+    validation?: Partial<ValidationSplitConfig>;
+
+    /**
+     * Early stopping por meseta del error de train (default: desactivado).
+     * La divergencia (NaN/Infinity o error que explota) siempre detiene el entrenamiento.
+     */
+    earlyStopping?: Partial<EarlyStoppingConfig>;
+
+    /** Entrada de prueba para `prediction`, en escala original (default: primer sample del dataset). */
+    testInput?: number[];
+}
+
+/**
+ * Motor de entrenamiento compartido con gradiente descendente.
+ *
+ * Recibe cualquier dataset `{ X, y }` y devuelve el mismo `TrainingResult`
+ * que usan la API y la UI:
+ * - history muestreado con logEvery
+ * - snapshots de weights/bias/z/yHat (y gradientes) para animación y sliders
+ * - activación configurable (sigmoid/tanh/relu) para comparación A/B
+ * - capas ocultas opcionales (MLP) con backpropagation completa
+ * - pérdida configurable (MSE o binary cross-entropy, esta siempre con salida sigmoid)
+ * - multi-clase: salida softmax (una neurona por clase) con categorical cross-entropy
+ * - regresión: salida lineal con MSE, MAE o Huber y métricas R²/MAE/RMSE
+ * - SGD, mini-batch o full-batch, con barajado opcional por época
+ * - optimizadores intercambiables (SGD, momentum, Nesterov, RMSProp, Adam)
+ * - schedules de learning rate (step, exponential, cosine, warmup)
+ * - normalización de entradas (min-max, z-score) con scaler guardado
+ * - split train/validación (holdout o k-fold) con pérdida y accuracy de validación
+ * - métricas de clasificación del modelo final (accuracy, F1, matriz de confusión, ROC/AUC)
+ * - parada anticipada: divergencia (NaN/Infinity, error que explota) y early stopping por meseta
+ *
+ * Versión síncrona de `trainSteps` (recorre todo el entrenamiento de una vez).
+ */
+export function train(dataset: Dataset, options?: TrainOptions): TrainingResult {
+    const steps = trainSteps(dataset, options);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+}
+
+/**
+ * Entrenamiento paso a paso: un yield por época (el TrainingPoint si la época
+ * se registra en history, null si no) y el TrainingResult al terminar.
+ *
+ * Permite hacer streaming del progreso y cancelar: basta con dejar de llamar
+ * a next() (el entrenamiento no avanza por su cuenta).
+ */
+export function* trainSteps(
+    dataset: Dataset,
+    options?: TrainOptions
+): Generator<TrainingPoint | null, TrainingResult, void> {
+    const {
+        task = 'classification',
+        learningRate: learningRateRaw = 0.01,
+        epochs: epochsRaw = 2_000,
+        logEvery: logEveryRaw = 100,
+        seed,
+        activation = 'sigmoid',
+        hiddenLayers = [],
+        loss: lossRaw = 'mse',
+        batchSize: batchSizeRaw = 1,
+        shuffle = false,
+        optimizer: optimizerConfig,
+        lrSchedule: lrScheduleConfig,
+        normalization = 'none',
+        validation: validationConfig,
+        earlyStopping: earlyStoppingConfig,
+        testInput,
+    } = options || {};
+
+    // Validaciones suaves: evitan NaN / negativos / valores absurdos
+    const learningRate =
+        Number.isFinite(learningRateRaw) && learningRateRaw > 0 ? learningRateRaw : 0.01;
+
+    const epochs = Number.isFinite(epochsRaw) ? Math.max(1, Math.floor(epochsRaw)) : 2_000;
+
+    const logEvery = Number.isFinite(logEveryRaw)
+        ? Math.max(1, Math.floor(logEveryRaw))
+        : 100;
+
+    const hidden = hiddenLayers
+        .filter((l) => Number.isFinite(l.units) && l.units >= 1)
+        .map((l) => ({ units: Math.floor(l.units), activation: l.activation }));
+
+    // Determinismo opcional (sin tocar Math.random global)
+    const rand = seed !== undefined ? mulberry32(seed) : Math.random;
+
+    // Split train/validación (PRNG propio: no altera la inicialización)
+    const split = resolveValidationSplit(validationConfig, dataset.X.length, seed);
+    const { train: trainIdx, validation: valIdx } = splitIndices(dataset.X.length, split);
+
+    // Preprocesado: el scaler se ajusta solo con train y los pesos se aprenden sobre X normalizado
+    const scaler = fitScaler(trainIdx.map((i) => dataset.X[i]), normalization);
+    const X = dataset.X.map((x) => applyScaler(scaler, x));
+    const { y } = dataset;
+    const nFeatures = X[0]?.length ?? 0;
+
+    // batchSize en [1, nTrain]; Infinity = full-batch
+    const batchSize = Number.isNaN(batchSizeRaw)
+        ? 1
+        : Math.min(Math.max(1, Math.floor(batchSizeRaw)), Math.max(1, trainIdx.length));
+
+    // Regresión: salida identidad; las pérdidas de clasificación no aplican
+    const regression = task === 'regression';
+    const loss: LossFn = regression && !REGRESSION_LOSSES.has(lossRaw) ? 'mse' : lossRaw;
+
+    // Multi-clase (cce): una neurona de salida por clase con softmax
+    const classes = !regression && loss === 'cce' ? numClasses(y) : 1;
+    const multiclass = classes > 1;
+
+    // Inicialización
+    const outputActivation = outputActivationFor(activation, loss, task, classes);
+    const layers = initNetwork(nFeatures, hidden, outputActivation, rand, classes);
+    const output = layers[layers.length - 1];
+    const optimizer = createOptimizer(resolveOptimizerConfig(optimizerConfig), layers);
+    const schedule = resolveLrSchedule(lrScheduleConfig, epochs);
+
+    const history: TrainingPoint[] = [];
+
+    // Orden de recorrido de train (se baraja por época si shuffle)
+    const order = [...trainIdx];
+
+    // Parada anticipada: divergencia siempre; meseta solo con early stopping
+    const earlyStopping = resolveEarlyStopping(earlyStoppingConfig);
+    // Pesos sanos del último punto registrado (se restauran al divergir) y su época;
+    // si diverge antes del primer punto quedan los pesos iniciales (época 0)
+    let lastFinite = snapshotLayers(layers);
+    let lastFiniteEpoch = 0;
+    // Referencia de la divergencia: error de los pesos iniciales (antes de cualquier update),
+    // así también se detecta un lr que diverge ya dentro de la primera época
+    const initialError = evaluate(layers, X, y, trainIdx, loss).valError;
+    const minExplodingError = explodingMinError(trainIdx.map((i) => y[i]), regression);
+    let bestError = Infinity;
+    let sinceBest = 0;
+    let stoppedEpoch = epochs - 1;
+    let stopReason: StopReason = 'completed';
+
+    for (let epoch = 0; epoch < epochs; epoch++) {
+        let totalError = 0;
+
+        // Snapshot representativo (último sample)
+        let lastZ = 0;
+        let lastYHat = 0;
+
+        // Learning rate efectivo de la época
+        const lr = learningRateAt(schedule, epoch, epochs, learningRate);
+
+        if (shuffle) shuffleInPlace(order, rand);
+
+        // Gradientes de la época (solo si se va a registrar: evita trabajo extra)
+        const epochGrads = epoch % logEvery === 0 ? zeroGradients(layers) : null;
+
+        for (let start = 0; start < order.length; start += batchSize) {
+            const batch = order.slice(start, start + batchSize);
+            const acc = zeroGradients(layers);
+
+            for (const i of batch) {
+                // Forward pass
+                const { zs, activations } = forwardNetwork(layers, X[i]);
+                const z = zs[zs.length - 1][0];
+                const yHat = activations[activations.length - 1][0];
+
+                lastZ = z;
+                lastYHat = yHat;
+
+                // Backpropagation (cadena: dL/dŷ * f'(z) hacia atrás, capa por capa)
+                const grads = backward(layers, zs, activations, y[i], loss);
+                acc.forEach((g, l) => {
+                    g.weights.forEach((row, k) => {
+                        for (let j = 0; j < row.length; j++) row[j] += grads[l].weights[k][j];
+                        g.biases[k] += grads[l].biases[k];
+                    });
+                });
+
+                totalError += multiclass
+                    ? categoricalCrossEntropy(activations[activations.length - 1], y[i])
+                    : lossValue(yHat, y[i], loss);
+            }
+
+            epochGrads?.forEach((g, l) => {
+                g.weights.forEach((row, k) => {
+                    for (let j = 0; j < row.length; j++) row[j] += acc[l].weights[k][j];
+                    g.biases[k] += acc[l].biases[k];
+                });
+            });
+
+            // Update con el gradiente promedio del batch
+            acc.forEach((g) => {
+                g.weights.forEach((row, k) => {
+                    for (let j = 0; j < row.length; j++) row[j] /= batch.length;
+                    g.biases[k] /= batch.length;
+                });
+            });
+            optimizer.step(layers, acc, lr);
+        }
+
+        const epochError = totalError / order.length;
+
+        // Divergencia (NaN/Infinity o error que explota): se vuelve a los pesos del último punto
+        // registrado, sin registrar un punto basura → el modelo final = history.at(-1) y stoppedEpoch
+        const nonFinite = !Number.isFinite(epochError) || !layersFinite(layers);
+        if (nonFinite || epochError > Math.max(EXPLODING_LOSS.factor * initialError, minExplodingError)) {
+            restoreLayers(layers, lastFinite);
+            stoppedEpoch = lastFiniteEpoch;
+            stopReason = nonFinite ? 'nonFinite' : 'exploding';
+            break;
+        }
+
+        let stop: StopReason | null = null;
+        if (earlyStopping) {
+            if (epochError < bestError - earlyStopping.minDelta) {
+                bestError = epochError;
+                sinceBest = 0;
+            } else if (++sinceBest >= earlyStopping.patience) {
+                stop = 'plateau';
+            }
+        }
+
+        // Log (para graficar y animar); la época de parada siempre se registra
+        if (epoch % logEvery === 0 || stop) {
+            const point: TrainingPoint = {
+                epoch,
+                error: epochError,
+                ...(valIdx.length > 0 ? evaluate(layers, X, y, valIdx, loss) : {}),
+                loss,
+                learningRate: lr,
+                weights: [...output.weights[0]], // snapshot defensivo
+                bias: output.biases[0],
+                z: lastZ,
+                yHat: lastYHat,
+                ...(hidden.length > 0 || multiclass ? { layers: snapshotLayers(layers) } : {}),
+                optimizer: optimizer.snapshot(),
+                ...(epochGrads ? { gradients: gradientSnapshot(epochGrads, order.length) } : {}),
+            };
+            history.push(point);
+            lastFinite = snapshotLayers(layers);
+            lastFiniteEpoch = epoch;
+            yield point;
+        } else {
+            yield null;
+        }
+
+        if (stop) {
+            stoppedEpoch = epoch;
+            stopReason = stop;
+            break;
+        }
+    }
+
+    // Evaluación final (ejemplo de prueba); multi-clase: prediction = clase más probable
+    const probabilities = predictProbabilities(layers, testInput ? applyScaler(scaler, testInput) : X[0] ?? []);
+    const outputs = X.map((x) => predictProbabilities(layers, x));
+
+    return {
+        weights: [...output.weights[0]], // snapshot defensivo (evita mutaciones accidentales)
+        bias: output.biases[0],
+        prediction: multiclass ? argmax(probabilities) : probabilities[0],
+        history,
+        layers: snapshotLayers(layers).map((l, i) => ({ ...l, activation: layers[i].activation })),
+        ...(scaler.method !== 'none' ? { scaler } : {}),
+        ...(multiclass
+            ? {
+                  classes,
+                  probabilities,
+                  multiclassMetrics: multiclassReport(y, outputs.map(argmax), classes),
+              }
+            : regression
+            ? { regressionMetrics: regressionReport(y, outputs.map((out) => out[0])) }
+            : { metrics: classificationReport(y, outputs.map((out) => out[0])) }),
+        stoppedEpoch,
+        stopReason,
+    };
+}
@@ -0,0 +1,238 @@
+// lib/nn-insights.ts
+
+import { forwardNetwork } from './nn-engine';
+import { applyScaler } from './nn-preprocessing';
+import type {
+    Dataset,
+    HiddenLayerConfig,
+    InsightKind,
+    LayerActivation,
+    LayerParams,
+    ParameterDelta,
+    Scaler,
+    TrainingInsight,
+    TrainingPoint,
+} from './types';
+
+/**
+ * Analizador de "explicación viva": compara puntos consecutivos de history
+ * y produce un TrainingInsight por punto (mismo orden que history).
+ *
+ * Se ejecuta una vez al terminar el entrenamiento (servidor o worker), así que
+ * puede mirar el dataset completo para detectar saturación y ReLU muertas.
+ */
+export interface InsightOptions {
+    dataset: Dataset;
+
+    /** Activación de la capa de salida (softmax en multi-clase). */
+    activation: LayerActivation;
+    hiddenLayers?: HiddenLayerConfig[];
+    scaler?: Scaler;
+}
+
+/** Umbrales de las heurísticas (en puntos de history, no en épocas). */
+const INSIGHT_THRESHOLDS = {
+    window: 5,
+    maxDeltas: 5,
+    convergedError: 1e-3,
+    plateauRelChange: 1e-3,
+    oscillationSignChanges: 3,
+    oscillationRelAmplitude: 0.01,
+    divergenceFactor: 3,
+    saturatedShare: 0.9,
+} as const;
+
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+const sub = (n: number) => String(n).replace(/\d/g, (d) => SUBSCRIPTS[Number(d)]);
+
+/** Red de un punto de history (MLP: snapshot de capas; una neurona: weights/bias). */
+function pointLayers(point: TrainingPoint, options: InsightOptions): LayerParams[] | null {
+    const hidden = options.hiddenLayers ?? [];
+    if (point.layers) {
+        return point.layers.map((layer, i) => ({
+            ...layer,
+            activation: i < hidden.length ? hidden[i].activation : options.activation,
+        }));
+    }
+    if (point.weights && point.bias !== undefined) {
+        return [{ weights: [point.weights], biases: [point.bias], activation: options.activation }];
+    }
+    return null;
+}
+
+/**
+ * Recorre el dataset con la red del punto y cuenta:
+ * - neuronas ReLU que dan 0 para todas las filas (muertas)
+ * - si alguna sigmoid/tanh está saturada en casi todas las filas
+ */
+function unitHealth(layers: LayerParams[], X: number[][]): { deadRelu: number; saturated: boolean } {
+    const alive = layers.map((layer) => layer.biases.map(() => false));
+    const saturatedCount = layers.map((layer) => layer.biases.map(() => 0));
+
+    for (const x of X) {
+        const { activations } = forwardNetwork(layers, x);
+        layers.forEach((layer, k) => {
+            activations[k + 1].forEach((a, u) => {
+                if (a > 0) alive[k][u] = true;
+                const saturated =
+                    (layer.activation === 'sigmoid' && (a < 0.02 || a > 0.98)) ||
+                    (layer.activation === 'tanh' && Math.abs(a) > 0.98);
+                if (saturated) saturatedCount[k][u]++;
+            });
+        });
+    }
+
+    let deadRelu = 0;
+    let saturated = false;
+    layers.forEach((layer, k) => {
+        layer.biases.forEach((_, u) => {
+            if (layer.activation === 'relu' && !alive[k][u]) deadRelu++;
+            if (saturatedCount[k][u] >= INSIGHT_THRESHOLDS.saturatedShare * X.length) saturated = true;
+        });
+    });
+    return { deadRelu, saturated };
+}
+
+/** Cambios de los pesos de salida entre dos puntos (los mayores primero). */
+function weightDeltas(prev: TrainingPoint | undefined, point: TrainingPoint): ParameterDelta[] {
+    if (!prev?.weights || !point.weights) return [];
+    const prevWeights = prev.weights;
+    return point.weights
+        .map((w, weightIndex) => ({ weightIndex, delta: w - (prevWeights[weightIndex] ?? 0) }))
+        .filter((d) => d.delta !== 0)
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+        .slice(0, INSIGHT_THRESHOLDS.maxDeltas);
+}
+
+/** El error cambia de sentido muchas veces en la ventana y con amplitud apreciable. */
+function isOscillating(errors: number[]): boolean {
+    const diffs = errors.slice(1).map((e, i) => e - errors[i]);
+    let signChanges = 0;
+    for (let i = 1; i < diffs.length; i++) {
+        if (diffs[i] * diffs[i - 1] < 0) signChanges++;
+    }
+    const amplitude = diffs.reduce((acc, d) => acc + Math.abs(d), 0) / Math.max(1, diffs.length);
+    const level = errors[errors.length - 1];
+    return (
+        signChanges >= INSIGHT_THRESHOLDS.oscillationSignChanges &&
+        amplitude > INSIGHT_THRESHOLDS.oscillationRelAmplitude * Math.max(level, 1e-12)
+    );
+}
+
+/**
+ * Un TrainingInsight por punto de history.
+ * Prioridad del mensaje: divergencia > oscilación > ReLU muertas > convergencia >
+ * saturación > meseta > aprendizaje normal.
+ */
+export function analyzeTraining(history: TrainingPoint[], options: InsightOptions): TrainingInsight[] {
+    const X = options.dataset.X.map((x) => applyScaler(options.scaler, x));
+    const { window } = INSIGHT_THRESHOLDS;
+    const single = !options.hiddenLayers || options.hiddenLayers.length === 0;
+    const input = (i: number) => (single ? `x${sub(i + 1)}` : `h${sub(i + 1)}`);
+
+    let bestError = Infinity;
+
+    return history.map((point, i) => {
+        const prev = history[i - 1];
+        const deltas = weightDeltas(prev, point);
+        const biasDelta = prev?.bias !== undefined && point.bias !== undefined ? point.bias - prev.bias : 0;
+
+        const finite = Number.isFinite(point.error) && (point.weights ?? []).every(Number.isFinite);
+        const diverging =
+            !finite ||
+            (prev !== undefined &&
+                point.error > prev.error &&
+                point.error > INSIGHT_THRESHOLDS.divergenceFactor * bestError);
+        if (finite) bestError = Math.min(bestError, point.error);
+
+        const recent = history.slice(Math.max(0, i - window), i + 1).map((p) => p.error);
+        const windowFull = recent.length === window + 1;
+        const oscillating = finite && windowFull && isOscillating(recent);
+        const converged = finite && point.error < INSIGHT_THRESHOLDS.convergedError;
+        const plateau =
+            finite &&
+            windowFull &&
+            !converged &&
+            Math.abs(point.error - recent[0]) / Math.max(recent[0], 1e-12) < INSIGHT_THRESHOLDS.plateauRelChange;
+
+        const layers = finite ? pointLayers(point, options) : null;
+        const { deadRelu, saturated } = layers ? unitHealth(layers, X) : { deadRelu: 0, saturated: false };
+
+        const kind: InsightKind =
+            i === 0
+                ? 'start'
+                : diverging
+                ? 'divergence'
+                : oscillating
+                ? 'oscillation'
+                : deadRelu > 0
+                ? 'deadRelu'
+                : converged
+                ? 'converged'
+                : saturated
+                ? 'saturation'
+                : plateau
+                ? 'plateau'
+                : 'learning';
+
+        let message: string;
+        switch (kind) {
+            case 'start':
+                message = `Época ${point.epoch}: pesos iniciales (aleatorios). El error de partida es ${point.error.toFixed(4)}.`;
+                break;
+            case 'divergence':
+                message = finite
+                    ? `El error está explotando (${point.error.toFixed(4)}, más de ${INSIGHT_THRESHOLDS.divergenceFactor}× el mejor). ` +
+                      'Cada paso se pasa del mínimo: baja el learning rate o normaliza las entradas.'
+                    : 'El entrenamiento divergió (error o pesos no finitos). Baja el learning rate o normaliza las entradas.';
+                break;
+            case 'oscillation':
+                message =
+                    'El error sube y baja entre mediciones: los pasos rebotan a ambos lados del mínimo. ' +
+                    'Un learning rate más bajo (o momentum/Adam) suaviza la trayectoria.';
+                break;
+            case 'deadRelu':
+                message =
+                    `${deadRelu} neurona(s) ReLU devuelven 0 para todo el dataset (“muertas”): su gradiente es 0 ` +
+                    'y ya no aprenden. Prueba un learning rate menor u otra seed.';
+                break;
+            case 'converged':
+                message = `El error ya es muy bajo (${point.error.toFixed(5)}): el modelo ajusta bien los datos y los pesos apenas cambian.`;
+                break;
+            case 'saturation':
+                message =
+                    'Activación saturada (salidas pegadas a sus extremos) en casi todo el dataset: ' +
+                    "f'(z) ≈ 0 y los pesos cambian muy despacio.";
+                break;
+            case 'plateau':
+                message =
+                    `Meseta: el error apenas cambia en las últimas ${window} mediciones. ` +
+                    'Puede ser un mínimo local o un avance muy lento; más épocas o un learning rate mayor pueden ayudar.';
+                break;
+            default: {
+                const change = prev && prev.error > 0 ? ((point.error - prev.error) / prev.error) * 100 : 0;
+                const top = deltas[0];
+                const w = point.weights?.[top?.weightIndex ?? 0] ?? 0;
+                message =
+                    `El error ${change <= 0 ? 'bajó' : 'subió'} un ${Math.abs(change).toFixed(2)}% desde la época ${prev?.epoch}.` +
+                    (top
+                        ? ` El mayor ajuste fue en w${sub(top.weightIndex + 1)} (Δ = ${top.delta >= 0 ? '+' : ''}${top.delta.toFixed(4)}): ` +
+                          `el modelo le da ${Math.sign(top.delta) === Math.sign(w) ? 'más' : 'menos'} peso a ${input(top.weightIndex)}.`
+                        : '');
+            }
+        }
+
+        return {
+            epoch: point.epoch,
+            kind,
+            weightDeltas: deltas,
+            biasDelta,
+            ...(saturated ? { saturated } : {}),
+            ...(deadRelu > 0 ? { deadRelu } : {}),
+            ...(diverging ? { diverging } : {}),
+            ...(plateau ? { plateau } : {}),
+            ...(oscillating ? { oscillating } : {}),
+            message,
+        };
+    });
+}
@@ -0,0 +1,66 @@
+// lib/nn-iris.ts
+
+import { train, type TrainOptions } from './nn-engine';
+import type { TrainingResult } from './types';
+
+/** Nombre de cada clase (índice = etiqueta). */
+export const IRIS_CLASSES = ['setosa', 'versicolor', 'virginica'] as const;
+
+/**
+ * Dataset del ejercicio multi-clase: flores iris (las 10 primeras de cada especie
+ * del dataset clásico de Fisher), con largo y ancho del pétalo en cm.
+ * Etiqueta: 0 = setosa, 1 = versicolor, 2 = virginica.
+ *
+ * Nota didáctica: setosa es linealmente separable; versicolor y virginica se
+ * solapan un poco (la softmax reparte la probabilidad en la zona de contacto).
+ */
+export function getIrisDataset(): { X: [number, number][], y: number[] } {
+    const X: [number, number][] = [
+        // setosa
+        [1.4, 0.2],
+        [1.4, 0.2],
+        [1.3, 0.2],
+        [1.5, 0.2],
+        [1.4, 0.2],
+        [1.7, 0.4],
+        [1.4, 0.3],
+        [1.5, 0.2],
+        [1.4, 0.2],
+        [1.5, 0.1],
+        // versicolor
+        [4.7, 1.4],
+        [4.5, 1.5],
+        [4.9, 1.5],
+        [4.0, 1.3],
+        [4.6, 1.5],
+        [4.5, 1.3],
+        [4.7, 1.6],
+        [3.3, 1.0],
+        [4.6, 1.3],
+        [3.9, 1.4],
+        // virginica
+        [6.0, 2.5],
+        [5.1, 1.9],
+        [5.9, 2.1],
+        [5.6, 1.8],
+        [5.8, 2.2],
+        [6.6, 2.1],
+        [4.5, 1.7],
+        [6.3, 1.8],
+        [5.8, 1.8],
+        [6.1, 2.5],
+    ];
+    const y: number[] = [...Array(10).fill(0), ...Array(10).fill(1), ...Array(10).fill(2)];
+    return { X, y };
+}
+
+/** Punto de prueba para la predicción final (zona de contacto versicolor/virginica). */
+export const IRIS_TEST_INPUT: [number, number] = [4.9, 1.7];
+
+/**
+ * Entrena el clasificador de 3 clases: salida softmax con categorical cross-entropy.
+ * El entrenamiento lo hace el motor compartido (`lib/nn-engine.ts`).
+ */
+export function trainIris(options?: Omit<TrainOptions, 'testInput' | 'loss'>): TrainingResult {
+    return train(getIrisDataset(), { ...options, loss: 'cce', testInput: IRIS_TEST_INPUT });
+}
@@ -0,0 +1,106 @@
+// lib/nn-landscape.ts
+
+import { activationForward } from './nn-engine';
+import { lossValue } from './nn-losses';
+import { applyScaler, fitScaler } from './nn-preprocessing';
+import { resolveValidationSplit, splitIndices } from './nn-split';
+import type { ActivationFn, Dataset, LossFn, LossLandscape, Scaler, TrainingPoint, TrainMeta } from './types';
+
+/**
+ * Superficie de pérdida de una sola neurona: L(w₁, w₂) con el bias (y los
+ * pesos de las demás entradas) fijos. Los pesos viven en el espacio
+ * normalizado, así que las entradas pasan por el mismo scaler que al entrenar.
+ */
+export interface LandscapeOptions {
+    activation: ActivationFn;
+    loss: LossFn;
+
+    /** Pesos vigentes: w₁ y w₂ se recorren en la rejilla, el resto queda fijo. */
+    weights: number[];
+    bias: number;
+    scaler?: Scaler;
+
+    /** Rangos de la rejilla (ver landscapeRange). */
+    w1Range: [number, number];
+    w2Range: [number, number];
+
+    /** Celdas por eje (default 40, máximo 100). */
+    resolution?: number;
+}
+
+/** Evalúa la pérdida media sobre el dataset en cada punto de la rejilla. */
+export function lossLandscape(dataset: Dataset, options: LandscapeOptions): LossLandscape {
+    const { activation, loss, weights, bias, scaler, w1Range, w2Range } = options;
+    const resolution = Math.min(Math.max(2, Math.floor(options.resolution ?? 40)), 100);
+    const X = dataset.X.map((x) => applyScaler(scaler, x));
+
+    // La parte de z que no depende de (w₁, w₂) se calcula una sola vez por fila
+    const rest = X.map((x) => x.slice(2).reduce((acc, v, k) => acc + v * (weights[k + 2] ?? 0), bias));
+
+    const axis = ([lo, hi]: [number, number]) =>
+        Array.from({ length: resolution }, (_, i) => lo + (i / (resolution - 1)) * (hi - lo));
+    const w1 = axis(w1Range);
+    const w2 = axis(w2Range);
+
+    let min = Infinity;
+    let max = -Infinity;
+    const values = w2.map((b2) =>
+        w1.map((b1) => {
+            let total = 0;
+            X.forEach((x, r) => {
+                const z = (x[0] ?? 0) * b1 + (x[1] ?? 0) * b2 + rest[r];
+                total += lossValue(activationForward(z, activation), dataset.y[r], loss);
+            });
+            const value = total / Math.max(1, X.length);
+            min = Math.min(min, value);
+            max = Math.max(max, value);
+            return value;
+        })
+    );
+
+    return { w1, w2, values, min, max };
+}
+
+/**
+ * Lo que hace falta para que la superficie sea la del modelo entrenado (y no la
+ * de los selectores actuales del panel): activación de salida, pérdida, filas de
+ * train (el error del history solo promedia esas) y scaler ajustado sobre ellas.
+ */
+export function landscapeSetup(
+    dataset: Dataset,
+    meta: Pick<TrainMeta, 'task' | 'activation' | 'loss' | 'seed' | 'normalization' | 'validation'>
+): { dataset: Dataset; activation: ActivationFn; loss: LossFn; scaler: Scaler } {
+    const n = dataset.X.length;
+    const { train } = splitIndices(n, resolveValidationSplit(meta.validation, n, meta.seed));
+    const X = train.map((i) => dataset.X[i]);
+    return {
+        dataset: { X, y: train.map((i) => dataset.y[i]) },
+        activation: meta.task === 'regression' ? 'linear' : meta.activation,
+        loss: meta.loss ?? 'mse',
+        scaler: fitScaler(X, meta.normalization ?? 'none'),
+    };
+}
+
+/**
+ * Rango de la rejilla que contiene toda la trayectoria de (w₁, w₂) del history,
+ * con un margen (fracción del tramo recorrido, mínimo `minPad`).
+ */
+export function landscapeRange(
+    history: TrainingPoint[],
+    margin = 0.5,
+    minPad = 1
+): { w1Range: [number, number]; w2Range: [number, number] } {
+    const range = (values: number[]): [number, number] => {
+        const finite = values.filter(Number.isFinite);
+        if (finite.length === 0) return [-minPad, minPad];
+        const lo = Math.min(...finite);
+        const hi = Math.max(...finite);
+        const pad = Math.max((hi - lo) * margin, minPad);
+        return [lo - pad, hi + pad];
+    };
+    const points = history.filter((p) => p.weights && p.weights.length >= 2);
+    return {
+        w1Range: range(points.map((p) => (p.weights as number[])[0])),
+        w2Range: range(points.map((p) => (p.weights as number[])[1])),
+    };
+}
@@ -0,0 +1,72 @@
+// lib/nn-losses.ts
+
+import type { LossFn } from './types';
+
+/** Evita log(0) en cross-entropy. */
+const EPS = 1e-7;
+
+/** Umbral de Huber: |ŷ - y| ≤ δ → cuadrática; si no, lineal. */
+export const HUBER_DELTA = 1;
+
+const clampProb = (p: number) => Math.min(1 - EPS, Math.max(EPS, p));
+
+/**
+ * Pérdida de un sample.
+ * - mse: (y - ŷ)²
+ * - bce: -[y·ln(ŷ) + (1 - y)·ln(1 - ŷ)]  (ŷ se acota a (0, 1))
+ * - mae: |y - ŷ|
+ * - huber: ½(y - ŷ)² si |y - ŷ| ≤ δ; δ·(|y - ŷ| - ½δ) si no
+ */
+export function lossValue(yHat: number, y: number, loss: LossFn): number {
+    switch (loss) {
+        case 'bce': {
+            const p = clampProb(yHat);
+            return -(y * Math.log(p) + (1 - y) * Math.log(1 - p));
+        }
+        case 'mae':
+            return Math.abs(y - yHat);
+        case 'huber': {
+            const r = Math.abs(y - yHat);
+            return r <= HUBER_DELTA ? 0.5 * r * r : HUBER_DELTA * (r - 0.5 * HUBER_DELTA);
+        }
+        case 'mse':
+        default:
+            return Math.pow(y - yHat, 2);
+    }
+}
+
+/**
+ * dL/dŷ de un sample.
+ * - mse: ŷ - y (el factor 2 se absorbe en el learning rate, como en los ejercicios originales)
+ * - bce: (ŷ - y) / (ŷ(1 - ŷ))
+ * - mae: sign(ŷ - y)
+ * - huber: ŷ - y acotado a [-δ, δ]
+ *
+ * BCE espera probabilidades: el motor usa siempre salida sigmoid con bce.
+ * Si aun así ŷ cae fuera de (0, 1) la pérdida se calcula sobre ŷ acotado
+ * y el gradiente es 0, igual que al recortar en Keras.
+ */
+export function lossGradient(yHat: number, y: number, loss: LossFn): number {
+    switch (loss) {
+        case 'bce': {
+            if (yHat < EPS || yHat > 1 - EPS) return 0;
+            return (yHat - y) / (yHat * (1 - yHat));
+        }
+        case 'mae':
+            return Math.sign(yHat - y);
+        case 'huber':
+            return Math.min(HUBER_DELTA, Math.max(-HUBER_DELTA, yHat - y));
+        case 'mse':
+        default:
+            return yHat - y;
+    }
+}
+
+/**
+ * Categorical cross-entropy de un sample: -ln(p[clase real]).
+ * `probs` es la salida softmax (una probabilidad por clase).
+ * El gradiente respecto a z con softmax se simplifica a p - onehot(y) (ver el motor).
+ */
+export function categoricalCrossEntropy(probs: number[], label: number): number {
+    return -Math.log(clampProb(probs[label] ?? 0));
+}
@@ -0,0 +1,157 @@
+// lib/nn-metrics.ts
+
+import type {
+    ClassificationMetrics,
+    ClassMetrics,
+    ConfusionMatrix,
+    MulticlassMetrics,
+    RegressionMetrics,
+    RocPoint,
+} from './types';
+
+/** Cociente con denominador 0 → 0 (criterio habitual en reportes de clasificación). */
+const ratio = (num: number, den: number) => (den > 0 ? num / den : 0);
+
+/**
+ * Matriz de confusión binaria: clase predicha = ŷ ≥ threshold.
+ */
+export function confusionMatrix(yTrue: number[], scores: number[], threshold = 0.5): ConfusionMatrix {
+    const m: ConfusionMatrix = { tp: 0, fp: 0, tn: 0, fn: 0 };
+    yTrue.forEach((y, i) => {
+        const predicted = scores[i] >= threshold ? 1 : 0;
+        if (predicted === 1) {
+            if (y === 1) m.tp++;
+            else m.fp++;
+        } else if (y === 1) {
+            m.fn++;
+        } else {
+            m.tn++;
+        }
+    });
+    return m;
+}
+
+/**
+ * Curva ROC: se recorren los scores de mayor a menor y cada valor distinto es un umbral.
+ * Los empates se agrupan (un solo punto), así la curva no depende del orden del dataset.
+ */
+export function rocCurve(yTrue: number[], scores: number[]): RocPoint[] {
+    const positives = yTrue.filter((y) => y === 1).length;
+    const negatives = yTrue.length - positives;
+
+    const order = scores.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+    // Punto inicial (nada positivo): umbral por encima de todos los scores (JSON no admite Infinity)
+    const points: RocPoint[] = [{ threshold: (scores[order[0]] ?? 0) + 1, fpr: 0, tpr: 0 }];
+
+    let tp = 0;
+    let fp = 0;
+    for (let k = 0; k < order.length; k++) {
+        const i = order[k];
+        if (yTrue[i] === 1) tp++;
+        else fp++;
+
+        // Solo se emite punto al cambiar de score (fin de un grupo de empates)
+        const next = order[k + 1];
+        if (next === undefined || scores[next] !== scores[i]) {
+            points.push({ threshold: scores[i], fpr: ratio(fp, negatives), tpr: ratio(tp, positives) });
+        }
+    }
+
+    return points;
+}
+
+/** Área bajo la curva ROC por trapecios (null si falta alguna de las dos clases). */
+export function rocAuc(yTrue: number[], roc: RocPoint[]): number | null {
+    const positives = yTrue.filter((y) => y === 1).length;
+    if (positives === 0 || positives === yTrue.length) return null;
+
+    let area = 0;
+    for (let k = 1; k < roc.length; k++) {
+        area += ((roc[k].fpr - roc[k - 1].fpr) * (roc[k].tpr + roc[k - 1].tpr)) / 2;
+    }
+    return area;
+}
+
+/**
+ * Reporte completo: accuracy, precision, recall, F1, matriz de confusión y ROC/AUC.
+ *
+ * `scores` son las salidas ŷ del modelo (probabilidad de la clase 1).
+ */
+export function classificationReport(yTrue: number[], scores: number[], threshold = 0.5): ClassificationMetrics {
+    const confusion = confusionMatrix(yTrue, scores, threshold);
+    const { tp, fp, tn, fn } = confusion;
+
+    const precision = ratio(tp, tp + fp);
+    const recall = ratio(tp, tp + fn);
+    const roc = rocCurve(yTrue, scores);
+
+    return {
+        threshold,
+        samples: yTrue.length,
+        accuracy: ratio(tp + tn, yTrue.length),
+        precision,
+        recall,
+        f1: ratio(2 * precision * recall, precision + recall),
+        confusion,
+        roc,
+        auc: rocAuc(yTrue, roc),
+    };
+}
+
+/**
+ * Reporte multi-clase: accuracy, matriz de confusión K×K y precision/recall/F1
+ * de cada clase contra el resto (más el macro-F1).
+ *
+ * `predicted` son las clases predichas (argmax de la softmax).
+ */
+export function multiclassReport(yTrue: number[], predicted: number[], classes: number): MulticlassMetrics {
+    const confusion = Array.from({ length: classes }, () => new Array<number>(classes).fill(0));
+    yTrue.forEach((y, i) => {
+        if (confusion[y]?.[predicted[i]] !== undefined) confusion[y][predicted[i]]++;
+    });
+
+    const perClass: ClassMetrics[] = confusion.map((row, k) => {
+        const tp = row[k];
+        const support = row.reduce((acc, v) => acc + v, 0);
+        const predictedK = confusion.reduce((acc, r) => acc + r[k], 0);
+        const precision = ratio(tp, predictedK);
+        const recall = ratio(tp, support);
+        return { precision, recall, f1: ratio(2 * precision * recall, precision + recall), support };
+    });
+    const hits = confusion.reduce((acc, row, k) => acc + row[k], 0);
+
+    return {
+        classes,
+        samples: yTrue.length,
+        accuracy: ratio(hits, yTrue.length),
+        macroF1: ratio(perClass.reduce((acc, c) => acc + c.f1, 0), classes),
+        confusion,
+        perClass,
+    };
+}
+
+/**
+ * Reporte de regresión: R², MAE y RMSE del modelo sobre el dataset.
+ * R² = 1 - SS_res / SS_tot; con objetivo constante (SS_tot = 0) vale 0.
+ */
+export function regressionReport(yTrue: number[], yPred: number[]): RegressionMetrics {
+    const n = yTrue.length;
+    const mean = yTrue.reduce((acc, v) => acc + v, 0) / Math.max(1, n);
+
+    let ssRes = 0;
+    let ssTot = 0;
+    let absError = 0;
+    yTrue.forEach((y, i) => {
+        const r = y - yPred[i];
+        ssRes += r * r;
+        ssTot += (y - mean) ** 2;
+        absError += Math.abs(r);
+    });
+
+    return {
+        samples: n,
+        r2: ssTot > 0 ? 1 - ssRes / ssTot : 0,
+        mae: ratio(absError, n),
+        rmse: Math.sqrt(ratio(ssRes, n)),
+    };
+}
@@ -0,0 +1,134 @@
+// lib/nn-optimizers.ts
+
+import type { LayerParams, LayerWeights, OptimizerConfig, OptimizerState } from './types';
+
+/**
+ * Hiperparámetros por defecto de cada optimizador.
+ * - momentum/nesterov: momentum = 0.9
+ * - rmsprop: beta2 = 0.9 (decaimiento del promedio de g²), epsilon = 1e-8
+ * - adam: beta1 = 0.9, beta2 = 0.999, epsilon = 1e-8
+ */
+export function resolveOptimizerConfig(config?: Partial<OptimizerConfig>): OptimizerConfig {
+    const name = config?.name ?? 'sgd';
+
+    // Coeficientes de decaimiento en [0, 1); epsilon estrictamente positivo
+    const unit = (v: number | undefined, fallback: number) =>
+        v !== undefined && Number.isFinite(v) && v >= 0 && v < 1 ? v : fallback;
+    const positive = (v: number | undefined, fallback: number) =>
+        v !== undefined && Number.isFinite(v) && v > 0 ? v : fallback;
+
+    switch (name) {
+        case 'momentum':
+        case 'nesterov':
+            return { name, momentum: unit(config?.momentum, 0.9) };
+        case 'rmsprop':
+            return {
+                name,
+                beta2: unit(config?.beta2, 0.9),
+                epsilon: positive(config?.epsilon, 1e-8),
+            };
+        case 'adam':
+            return {
+                name,
+                beta1: unit(config?.beta1, 0.9),
+                beta2: unit(config?.beta2, 0.999),
+                epsilon: positive(config?.epsilon, 1e-8),
+            };
+        case 'sgd':
+        default:
+            return { name: 'sgd' };
+    }
+}
+
+export interface Optimizer {
+    /** Aplica un update in-place con el gradiente (promedio del batch). */
+    step(layers: LayerParams[], grads: LayerWeights[], learningRate: number): void;
+
+    /** Copia del estado interno para guardarla en history. */
+    snapshot(): OptimizerState;
+}
+
+const zerosLike = (layers: LayerParams[]): LayerWeights[] =>
+    layers.map((layer) => ({
+        weights: layer.weights.map((row) => row.map(() => 0)),
+        biases: layer.biases.map(() => 0),
+    }));
+
+const copyState = (state: LayerWeights[]): LayerWeights[] =>
+    state.map((s) => ({ weights: s.weights.map((row) => [...row]), biases: [...s.biases] }));
+
+/**
+ * Crea un optimizador con su estado (velocidad / momentos) dimensionado según la red.
+ *
+ * Reglas de update (g = gradiente, α = learning rate):
+ * - sgd:      θ ← θ - α·g
+ * - momentum: v ← μ·v + g;            θ ← θ - α·v
+ * - nesterov: v ← μ·v + g;            θ ← θ - α·(g + μ·v)
+ * - rmsprop:  s ← β₂·s + (1-β₂)·g²;   θ ← θ - α·g / (√s + ε)
+ * - adam:     m ← β₁·m + (1-β₁)·g;    v ← β₂·v + (1-β₂)·g²
+ *             θ ← θ - α·m̂ / (√v̂ + ε)  (m̂, v̂ con corrección de sesgo)
+ */
+export function createOptimizer(config: OptimizerConfig, layers: LayerParams[]): Optimizer {
+    const { name, momentum = 0.9, beta1 = 0.9, beta2 = 0.999, epsilon = 1e-8 } = config;
+
+    // m: velocidad (momentum/nesterov) o primer momento (adam)
+    // v: promedio de g² (rmsprop) o segundo momento (adam)
+    const m = name === 'momentum' || name === 'nesterov' || name === 'adam' ? zerosLike(layers) : undefined;
+    const v = name === 'rmsprop' || name === 'adam' ? zerosLike(layers) : undefined;
+    let t = 0;
+
+    // Δθ para el parámetro i de una fila; mRow/vRow (misma forma) se actualizan in-place
+    const delta = (g: number, lr: number, mRow: number[], vRow: number[], i: number): number => {
+        switch (name) {
+            case 'momentum':
+                mRow[i] = momentum * mRow[i] + g;
+                return lr * mRow[i];
+            case 'nesterov':
+                mRow[i] = momentum * mRow[i] + g;
+                return lr * (g + momentum * mRow[i]);
+            case 'rmsprop':
+                vRow[i] = beta2 * vRow[i] + (1 - beta2) * g * g;
+                return (lr * g) / (Math.sqrt(vRow[i]) + epsilon);
+            case 'adam': {
+                mRow[i] = beta1 * mRow[i] + (1 - beta1) * g;
+                vRow[i] = beta2 * vRow[i] + (1 - beta2) * g * g;
+                const mHat = mRow[i] / (1 - Math.pow(beta1, t));
+                const vHat = vRow[i] / (1 - Math.pow(beta2, t));
+                return (lr * mHat) / (Math.sqrt(vHat) + epsilon);
+            }
+            case 'sgd':
+            default:
+                return lr * g;
+        }
+    };
+
+    return {
+        step(layers, grads, learningRate) {
+            t++;
+            layers.forEach((layer, l) => {
+                layer.weights.forEach((row, k) => {
+                    const mRow = m?.[l].weights[k] ?? [];
+                    const vRow = v?.[l].weights[k] ?? [];
+                    for (let j = 0; j < row.length; j++) {
+                        row[j] -= delta(grads[l].weights[k][j], learningRate, mRow, vRow, j);
+                    }
+                    layer.biases[k] -= delta(
+                        grads[l].biases[k],
+                        learningRate,
+                        m?.[l].biases ?? [],
+                        v?.[l].biases ?? [],
+                        k
+                    );
+                });
+            });
+        },
+
+        snapshot() {
+            return {
+                step: t,
+                ...(m ? { m: copyState(m) } : {}),
+                ...(v ? { v: copyState(v) } : {}),
+            };
+        },
+    };
+}
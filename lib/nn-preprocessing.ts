@@ -0,0 +1,58 @@
+// lib/nn-preprocessing.ts
+
+import type { NormalizationName, Scaler } from './types';
+
+/**
+ * Ajusta un scaler sobre X (por columnas).
+ *
+ * Las columnas constantes usan scale = 1 (evita dividir por 0):
+ * en minmax quedan en 0 y en zscore quedan centradas.
+ */
+export function fitScaler(X: number[][], method: NormalizationName): Scaler {
+    const nFeatures = X[0]?.length ?? 0;
+    const columns = Array.from({ length: nFeatures }, (_, j) => X.map((row) => row[j]));
+    const safeScale = (s: number) => (Number.isFinite(s) && s > 1e-12 ? s : 1);
+
+    switch (method) {
+        case 'minmax': {
+            const mins = columns.map((col) => Math.min(...col));
+            const maxs = columns.map((col) => Math.max(...col));
+            return { method, offset: mins, scale: mins.map((min, j) => safeScale(maxs[j] - min)) };
+        }
+        case 'zscore': {
+            const means = columns.map((col) => col.reduce((s, v) => s + v, 0) / col.length);
+            const stds = columns.map((col, j) =>
+                Math.sqrt(col.reduce((s, v) => s + (v - means[j]) ** 2, 0) / col.length)
+            );
+            return { method, offset: means, scale: stds.map(safeScale) };
+        }
+        case 'none':
+        default:
+            return { method: 'none', offset: Array(nFeatures).fill(0), scale: Array(nFeatures).fill(1) };
+    }
+}
+
+/** Transforma un sample: x' = (x - offset) / scale. */
+export function applyScaler(scaler: Scaler | undefined, x: number[]): number[] {
+    if (!scaler || scaler.method === 'none') return x;
+    return x.map((v, j) => (v - (scaler.offset[j] ?? 0)) / (scaler.scale[j] ?? 1));
+}
+
+/**
+ * Pesos/bias de una neurona expresados en el espacio original:
+ * w·x' + b = Σ (wⱼ/sⱼ)·xⱼ + (b - Σ wⱼ·oⱼ/sⱼ)
+ *
+ * Útil para dibujar la frontera lineal sobre los datos sin normalizar.
+ */
+export function unscaleLinear(
+    scaler: Scaler | undefined,
+    weights: number[],
+    bias: number
+): { weights: number[]; bias: number } {
+    if (!scaler || scaler.method === 'none') return { weights, bias };
+    const raw = weights.map((w, j) => w / (scaler.scale[j] ?? 1));
+    return {
+        weights: raw,
+        bias: bias - raw.reduce((s, w, j) => s + w * (scaler.offset[j] ?? 0), 0),
+    };
+}
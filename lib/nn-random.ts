@@ -0,0 +1,23 @@
+// lib/nn-random.ts
+
+/**
+ * PRNG local (determinista con seed).
+ * Importante: NO sobrescribe Math.random (evita side-effects globales).
+ */
+export function mulberry32(seed: number) {
+    let t = seed >>> 0;
+    return () => {
+        t += 0x6D2B79F5;
+        let x = Math.imul(t ^ (t >>> 15), 1 | t);
+        x ^= x + Math.imul(x ^ (x >>> 7), 61 | x);
+        return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** Fisher-Yates in-place con el generador recibido (seeded si hay seed). */
+export function shuffleInPlace(order: number[], rand: () => number) {
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(rand() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+}
@@ -0,0 +1,90 @@
+// lib/nn-schedules.ts
+
+import type { LrScheduleConfig } from './types';
+
+/**
+ * Completa un schedule con sus defaults (relativos al número de épocas).
+ * - step / exponential: gamma = 0.5, stepSize = epochs / 4
+ * - cosine: minLearningRate = 0
+ * - warmup: warmupEpochs = epochs / 10 (para el resto, 0 = sin warmup)
+ */
+export function resolveLrSchedule(config: Partial<LrScheduleConfig> | undefined, epochs: number): LrScheduleConfig {
+    const name = config?.name ?? 'constant';
+    const positiveInt = (v: number | undefined, fallback: number) =>
+        v !== undefined && Number.isFinite(v) && v >= 1 ? Math.floor(v) : fallback;
+    const nonNegativeInt = (v: number | undefined, fallback: number) =>
+        v !== undefined && Number.isFinite(v) && v >= 0 ? Math.floor(v) : fallback;
+
+    const warmupEpochs = Math.min(
+        epochs,
+        nonNegativeInt(config?.warmupEpochs, name === 'warmup' ? Math.max(1, Math.floor(epochs / 10)) : 0)
+    );
+    const warmup = warmupEpochs > 0 ? { warmupEpochs } : {};
+
+    switch (name) {
+        case 'step':
+        case 'exponential': {
+            const gamma = config?.gamma;
+            return {
+                name,
+                gamma: gamma !== undefined && Number.isFinite(gamma) && gamma > 0 && gamma <= 1 ? gamma : 0.5,
+                stepSize: positiveInt(config?.stepSize, Math.max(1, Math.floor(epochs / 4))),
+                ...warmup,
+            };
+        }
+        case 'cosine': {
+            const min = config?.minLearningRate;
+            return {
+                name,
+                minLearningRate: min !== undefined && Number.isFinite(min) && min >= 0 ? min : 0,
+                ...warmup,
+            };
+        }
+        case 'warmup':
+            return { name, warmupEpochs: Math.max(1, warmupEpochs) };
+        case 'constant':
+        default:
+            return { name: 'constant', ...warmup };
+    }
+}
+
+/**
+ * Learning rate efectivo en una época (e = época, E = épocas totales, α = base).
+ * - constant:    α
+ * - step:        α·γ^⌊e / stepSize⌋
+ * - exponential: α·γ^(e / stepSize)
+ * - cosine:      α_min + ½(α - α_min)(1 + cos(π·e / E))
+ * - warmup:      α (tras el warmup)
+ *
+ * Con warmupEpochs = W, las primeras W épocas escalan linealmente: ·(e + 1) / W.
+ */
+export function learningRateAt(
+    schedule: LrScheduleConfig,
+    epoch: number,
+    epochs: number,
+    baseLearningRate: number
+): number {
+    const { name, gamma = 0.5, stepSize = 1, minLearningRate = 0, warmupEpochs = 0 } = schedule;
+
+    let lr: number;
+    switch (name) {
+        case 'step':
+            lr = baseLearningRate * Math.pow(gamma, Math.floor(epoch / stepSize));
+            break;
+        case 'exponential':
+            lr = baseLearningRate * Math.pow(gamma, epoch / stepSize);
+            break;
+        case 'cosine':
+            lr =
+                minLearningRate +
+                0.5 * (baseLearningRate - minLearningRate) * (1 + Math.cos((Math.PI * epoch) / epochs));
+            break;
+        case 'warmup':
+        case 'constant':
+        default:
+            lr = baseLearningRate;
+            break;
+    }
+
+    return epoch < warmupEpochs ? (lr * (epoch + 1)) / warmupEpochs : lr;
+}
@@ -0,0 +1,71 @@
+// lib/nn-split.ts
+
+import { mulberry32, shuffleInPlace } from './nn-random';
+import type { ValidationSplitConfig } from './types';
+
+/**
+ * Completa un split con sus defaults (relativos al tamaño del dataset n).
+ * - holdout: ratio = 0.2 (acotado a [0.05, 0.5])
+ * - kfold: folds = 5 (acotado a [2, min(10, n)]), fold = 0
+ * - seed: la del entrenamiento o 0
+ *
+ * Con menos de 2 samples no hay nada que separar → none.
+ */
+export function resolveValidationSplit(
+    config: Partial<ValidationSplitConfig> | undefined,
+    n: number,
+    fallbackSeed?: number
+): ValidationSplitConfig {
+    const method = config?.method ?? 'none';
+    if (method === 'none' || n < 2) return { method: 'none' };
+
+    const seedRaw = config?.seed ?? fallbackSeed;
+    const seed = seedRaw !== undefined && Number.isFinite(seedRaw) ? Math.floor(seedRaw) : 0;
+
+    if (method === 'kfold') {
+        const maxFolds = Math.min(10, n);
+        const foldsRaw = config?.folds;
+        const folds =
+            foldsRaw !== undefined && Number.isFinite(foldsRaw)
+                ? Math.min(Math.max(2, Math.floor(foldsRaw)), maxFolds)
+                : Math.min(5, maxFolds);
+        const foldRaw = config?.fold;
+        const fold =
+            foldRaw !== undefined && Number.isFinite(foldRaw) ? Math.min(Math.max(0, Math.floor(foldRaw)), folds - 1) : 0;
+        return { method, folds, fold, seed };
+    }
+
+    const ratioRaw = config?.ratio;
+    const ratio =
+        ratioRaw !== undefined && Number.isFinite(ratioRaw) ? Math.min(Math.max(0.05, ratioRaw), 0.5) : 0.2;
+    return { method: 'holdout', ratio, seed };
+}
+
+/**
+ * Índices de entrenamiento y validación para un split ya resuelto.
+ * Baraja con su propio PRNG (no consume el del entrenamiento): mismo seed → mismo split.
+ * Ambos conjuntos tienen al menos un sample.
+ */
+export function splitIndices(n: number, split: ValidationSplitConfig): { train: number[]; validation: number[] } {
+    const indices = Array.from({ length: n }, (_, i) => i);
+    if (split.method === 'none' || n < 2) return { train: indices, validation: [] };
+
+    shuffleInPlace(indices, mulberry32(split.seed ?? 0));
+
+    let start: number;
+    let end: number;
+    if (split.method === 'kfold') {
+        const folds = split.folds ?? 5;
+        const fold = split.fold ?? 0;
+        start = Math.floor((fold * n) / folds);
+        end = Math.floor(((fold + 1) * n) / folds);
+    } else {
+        start = 0;
+        end = Math.min(n - 1, Math.max(1, Math.round(n * (split.ratio ?? 0.2))));
+    }
+
+    return {
+        train: [...indices.slice(0, start), ...indices.slice(end)],
+        validation: indices.slice(start, end),
+    };
+}
@@ -0,0 +1,178 @@
+// lib/predict-request.ts
+
+import { argmax, forwardNetwork } from './nn-engine';
+import { applyScaler } from './nn-preprocessing';
+import type { LayerActivation, LayerParams, PredictionRow, Scaler } from './types';
+
+/**
+ * Límites de POST /api/predict.
+ * El body puede traer un ExperimentResult completo (history incluido) → más margen que un dataset.
+ */
+export const PREDICT_LIMITS = {
+    maxBytes: 2_000_000,
+    maxRows: 1_000,
+} as const;
+
+/** Umbral de clase (mismo criterio que las métricas). */
+export const PREDICT_THRESHOLD = 0.5;
+
+/** Modelo listo para predecir: capas + scaler opcional. */
+export interface PredictModel {
+    layers: LayerParams[];
+    scaler?: Scaler;
+}
+
+/** Petición validada o mensaje de error para el usuario. */
+export type PredictParseResult =
+    | { model: PredictModel; inputs: number[][]; error?: undefined }
+    | { model?: undefined; inputs?: undefined; error: string };
+
+const ACTIVATIONS = new Set<LayerActivation>(['sigmoid', 'tanh', 'relu', 'linear', 'softmax']);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isNumberArray = (v: unknown): v is number[] => Array.isArray(v) && v.every(isNumber);
+
+/**
+ * Valida el body de /api/predict:
+ * - { experiment: ExperimentResult, inputs }  (usa result.layers y result.scaler)
+ * - { weights, bias, activation?, scaler?, inputs }  (una sola neurona)
+ *
+ * inputs: number[][] en la escala original (el scaler se aplica aquí).
+ */
+export function parsePredictRequest(raw: unknown): PredictParseResult {
+    if (typeof raw !== 'object' || raw === null) {
+        return { error: 'Se esperaba un objeto { experiment, inputs } o { weights, bias, activation, inputs }.' };
+    }
+    const body = raw as Record<string, unknown>;
+
+    const parsedModel = parseModel(body);
+    if ('error' in parsedModel) return { error: parsedModel.error };
+    const model = parsedModel;
+
+    const { inputs } = body;
+    if (!Array.isArray(inputs) || inputs.length === 0) return { error: 'inputs debe ser un array de filas no vacío.' };
+    if (inputs.length > PREDICT_LIMITS.maxRows) {
+        return { error: `Se admiten hasta ${PREDICT_LIMITS.maxRows} filas (hay ${inputs.length}).` };
+    }
+
+    const nFeatures = model.layers[0].weights[0].length;
+    for (let i = 0; i < inputs.length; i++) {
+        if (!isNumberArray(inputs[i])) return { error: `La fila ${i + 1} contiene valores no numéricos.` };
+        if (inputs[i].length !== nFeatures) {
+            return { error: `La fila ${i + 1} tiene ${inputs[i].length} valores pero el modelo espera ${nFeatures}.` };
+        }
+    }
+
+    return { model, inputs: inputs as number[][] };
+}
+
+/** Modelo desde un ExperimentResult o desde weights/bias/activation. */
+function parseModel(body: Record<string, unknown>): PredictModel | { error: string } {
+    const experiment = body.experiment as { result?: Record<string, unknown>; config?: { activation?: unknown } } | undefined;
+
+    if (experiment !== undefined) {
+        const result = experiment?.result;
+        if (typeof result !== 'object' || result === null) return { error: 'experiment.result no es válido.' };
+
+        // Preferimos la red completa; si no viene (experimentos antiguos) → neurona de salida
+        const layers =
+            result.layers !== undefined
+                ? result.layers
+                : [{ weights: [result.weights], biases: [result.bias], activation: experiment.config?.activation }];
+        return withScaler(validateLayers(layers), result.scaler);
+    }
+
+    if (body.weights === undefined) return { error: 'Falta experiment o weights/bias.' };
+    const activation = body.activation ?? 'sigmoid';
+    return withScaler(
+        validateLayers([{ weights: [body.weights], biases: [body.bias], activation }]),
+        body.scaler
+    );
+}
+
+/**
+ * Capas densas encadenadas (entradas de cada capa = neuronas de la anterior).
+ * Salida: 1 neurona, o una por clase con softmax (softmax solo en la salida).
+ */
+function validateLayers(raw: unknown): LayerParams[] | { error: string } {
+    if (!Array.isArray(raw) || raw.length === 0) return { error: 'El modelo no tiene capas.' };
+
+    let inputs: number | undefined;
+    for (let l = 0; l < raw.length; l++) {
+        const layer = raw[l] as Partial<Record<keyof LayerParams, unknown>> | null;
+        const { weights, biases, activation } = layer ?? {};
+        if (!Array.isArray(weights) || weights.length === 0 || !weights.every(isNumberArray)) {
+            return { error: `Capa ${l + 1}: weights debe ser una matriz numérica.` };
+        }
+        if (!isNumberArray(biases) || biases.length !== weights.length) {
+            return { error: `Capa ${l + 1}: se esperaban ${weights.length} biases numéricos.` };
+        }
+        if (!ACTIVATIONS.has(activation as LayerActivation)) {
+            return { error: `Capa ${l + 1}: activación no soportada (${JSON.stringify(activation)}).` };
+        }
+        if (activation === 'softmax' && l !== raw.length - 1) {
+            return { error: `Capa ${l + 1}: softmax solo se admite en la capa de salida.` };
+        }
+
+        const width = inputs ?? weights[0].length;
+        if (width === 0 || !weights.every((row) => row.length === width)) {
+            return { error: `Capa ${l + 1}: cada neurona debe tener ${width} pesos.` };
+        }
+        inputs = weights.length;
+    }
+
+    const output = raw[raw.length - 1] as LayerParams;
+    if (output.activation === 'softmax' ? (inputs ?? 0) < 2 : inputs !== 1) {
+        return { error: 'La capa de salida debe tener una sola neurona (o una por clase con softmax).' };
+    }
+    return raw as LayerParams[];
+}
+
+/** Añade el scaler (opcional) validando que sea coherente con las entradas del modelo. */
+function withScaler(layers: LayerParams[] | { error: string }, raw: unknown): PredictModel | { error: string } {
+    if ('error' in layers) return layers;
+    if (raw === undefined || raw === null) return { layers };
+
+    const nFeatures = layers[0].weights[0].length;
+    const scaler = raw as Partial<Scaler>;
+    if (
+        !['none', 'minmax', 'zscore'].includes(scaler.method as string) ||
+        !isNumberArray(scaler.offset) ||
+        !isNumberArray(scaler.scale) ||
+        scaler.offset.length !== nFeatures ||
+        scaler.scale.length !== nFeatures
+    ) {
+        return { error: `scaler no es válido (se esperaban offset/scale con ${nFeatures} valores).` };
+    }
+    // (x - offset) / scale: una escala 0 daría Infinity/NaN en las entradas
+    if (scaler.scale.some((s) => s === 0)) {
+        return { error: 'scaler no es válido: los valores de scale deben ser distintos de 0.' };
+    }
+    return { layers, scaler: scaler as Scaler };
+}
+
+/**
+ * Predice cada fila: aplica el scaler del entrenamiento y recorre la red.
+ * Con softmax, yHat es la probabilidad de la clase predicha (argmax).
+ * Con salida lineal (regresión), yHat es el valor predicho y no hay clase.
+ */
+export function predictRows(model: PredictModel, inputs: number[][]): PredictionRow[] {
+    const multiclass = model.layers[model.layers.length - 1].activation === 'softmax';
+    return inputs.map((input) => {
+        const { zs, activations } = forwardNetwork(model.layers, applyScaler(model.scaler, input));
+        const output = activations[activations.length - 1];
+        if (multiclass) {
+            const predictedClass = argmax(output);
+            return {
+                input,
+                z: zs[zs.length - 1][predictedClass],
+                yHat: output[predictedClass],
+                predictedClass,
+                probabilities: output,
+            };
+        }
+        const yHat = output[0];
+        if (model.layers[model.layers.length - 1].activation === 'linear') return { input, z: zs[zs.length - 1][0], yHat };
+        return { input, z: zs[zs.length - 1][0], yHat, predictedClass: yHat >= PREDICT_THRESHOLD ? 1 : 0 };
+    });
+}
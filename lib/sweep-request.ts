@@ -0,0 +1,174 @@
+// lib/sweep-request.ts
+
+import { parseTrainParams, runExperiment, type TrainParams } from './train-request';
+import type { ActivationFn, Dataset, ExperimentConfig, HiddenLayerConfig, SweepRun } from './types';
+
+/**
+ * Límites de /api/sweep: el grid completo se entrena en una sola petición.
+ * El presupuesto de cómputo cuenta Σ épocas × filas × parámetros de la red
+ * (pesos + bias): con un dataset grande o un MLP caben menos épocas.
+ */
+export const SWEEP_LIMITS = {
+    maxValuesPerAxis: 10,
+    maxRuns: 60,
+    maxTotalWork: 30_000_000,
+} as const;
+
+/** Corridas ya validadas o mensaje de error para el usuario. */
+export type SweepParseResult = { runs: TrainParams[]; error?: undefined } | { runs?: undefined; error: string };
+
+const ACTIVATIONS: ActivationFn[] = ['sigmoid', 'tanh', 'relu'];
+
+/**
+ * Valores de un eje numérico del grid:
+ * - lista: "0.01,0.1,1"
+ * - rango: "inicio:fin:n" (n valores equiespaciados, extremos incluidos)
+ * Sin parámetro → [] (se usa el default de parseTrainParams).
+ */
+function parseNumericAxis(raw: string | null, key: string, integer: boolean): number[] | { error: string } {
+    if (raw === null || raw.trim() === '') return [];
+
+    let values: number[];
+    if (raw.includes(':')) {
+        const parts = raw.split(':').map(Number);
+        const [start, end] = parts;
+        const count = Math.floor(parts[2]);
+        if (parts.length !== 3 || ![start, end, count].every(Number.isFinite) || count < 1) {
+            return { error: `${key}: rango inválido (formato inicio:fin:n).` };
+        }
+        if (count > SWEEP_LIMITS.maxValuesPerAxis) {
+            return { error: `${key}: máximo ${SWEEP_LIMITS.maxValuesPerAxis} valores por eje.` };
+        }
+        values = Array.from({ length: count }, (_, i) =>
+            count === 1 ? start : start + ((end - start) * i) / (count - 1)
+        );
+    } else {
+        values = raw.split(',').map((part) => Number(part.trim()));
+        if (!values.every(Number.isFinite)) {
+            return { error: `${key}: todos los valores deben ser números.` };
+        }
+    }
+
+    if (integer) values = values.map(Math.round);
+    values = [...new Set(values)];
+    return values.length > SWEEP_LIMITS.maxValuesPerAxis
+        ? { error: `${key}: máximo ${SWEEP_LIMITS.maxValuesPerAxis} valores por eje.` }
+        : values;
+}
+
+/** Eje de activaciones: "sigmoid,tanh" o "all". */
+function parseActivationAxis(raw: string | null): ActivationFn[] | { error: string } {
+    if (raw === null || raw.trim() === '') return [];
+    if (raw.trim() === 'all') return ACTIVATIONS;
+
+    const values = [...new Set(raw.split(',').map((part) => part.trim()))];
+    const invalid = values.find((v) => !ACTIVATIONS.includes(v as ActivationFn));
+    return invalid !== undefined
+        ? { error: `activation: "${invalid}" no es válida (sigmoid, tanh, relu o all).` }
+        : (values as ActivationFn[]);
+}
+
+/** Parámetros entrenables (pesos + bias) de la red: capas ocultas + una neurona de salida. */
+function parameterCount(nFeatures: number, layers: HiddenLayerConfig[]): number {
+    let inputs = nFeatures;
+    let total = 0;
+    for (const units of [...layers.map((l) => l.units), 1]) {
+        total += (inputs + 1) * units;
+        inputs = units;
+    }
+    return total;
+}
+
+/**
+ * Expande el grid de la query string (learningRate × activation × epochs × seed)
+ * en una lista de corridas. El resto de hiperparámetros es común a todas y
+ * cada corrida pasa por parseTrainParams, igual que /api/train.
+ */
+export function parseSweepRuns(
+    searchParams: URLSearchParams,
+    datasetSize: number,
+    nFeatures: number
+): SweepParseResult {
+    const learningRate = parseNumericAxis(searchParams.get('learningRate'), 'learningRate', false);
+    if (!Array.isArray(learningRate)) return learningRate;
+    if (learningRate.some((v) => v <= 0)) return { error: 'learningRate: los valores deben ser positivos.' };
+    const activation = parseActivationAxis(searchParams.get('activation'));
+    if (!Array.isArray(activation)) return activation;
+    const epochs = parseNumericAxis(searchParams.get('epochs'), 'epochs', true);
+    if (!Array.isArray(epochs)) return epochs;
+    const seed = parseNumericAxis(searchParams.get('seed'), 'seed', true);
+    if (!Array.isArray(seed)) return seed;
+
+    // Eje vacío = una sola "celda" sin tocar ese parámetro
+    const axis = <T>(values: T[]) => (values.length > 0 ? values : [undefined]);
+    const count = [learningRate, activation, epochs, seed].reduce((acc, v) => acc * Math.max(1, v.length), 1);
+    if (count > SWEEP_LIMITS.maxRuns) {
+        return { error: `El grid tiene ${count} combinaciones (máximo ${SWEEP_LIMITS.maxRuns}).` };
+    }
+
+    const runs: TrainParams[] = [];
+    for (const lr of axis(learningRate)) {
+        for (const act of axis(activation)) {
+            for (const ep of axis(epochs)) {
+                for (const s of axis(seed)) {
+                    const params = new URLSearchParams(searchParams);
+                    if (lr !== undefined) params.set('learningRate', String(lr));
+                    if (act !== undefined) params.set('activation', act);
+                    if (ep !== undefined) params.set('epochs', String(ep));
+                    if (s !== undefined) params.set('seed', String(s));
+                    runs.push(parseTrainParams(params, datasetSize));
+                }
+            }
+        }
+    }
+
+    // Presupuesto total (después del clamp de épocas de parseTrainParams)
+    const totalWork = runs.reduce((acc, r) => acc + r.epochs * datasetSize * parameterCount(nFeatures, r.layers), 0);
+    if (totalWork > SWEEP_LIMITS.maxTotalWork) {
+        return {
+            error:
+                `El grid supone ${totalWork} actualizaciones (épocas × filas × parámetros; ` +
+                `máximo ${SWEEP_LIMITS.maxTotalWork}). Reduce valores, épocas, capas o filas.`,
+        };
+    }
+
+    return { runs };
+}
+
+/**
+ * Entrena todas las corridas y las ordena por error final (menor primero).
+ * Las corridas que divergen (stopReason nonFinite/exploding) quedan al final con finalError = null:
+ * su history termina en el último punto sano, que no representa la corrida.
+ */
+export function runSweep(
+    model: ExperimentConfig['model'],
+    dataset: Dataset,
+    runs: TrainParams[],
+    testInput?: number[],
+    extraConfig?: Partial<ExperimentConfig>
+): SweepRun[] {
+    const trained = runs.map((params) => {
+        const experiment = runExperiment(model, dataset, params, testInput, extraConfig);
+        const last = experiment.result.history.at(-1)?.error;
+        const { stopReason } = experiment.result;
+        const diverged = stopReason === 'nonFinite' || stopReason === 'exploding';
+        return {
+            learningRate: params.learningRate,
+            activation: params.activation,
+            epochs: params.epochs,
+            seed: params.seed,
+            finalError: !diverged && last !== undefined && Number.isFinite(last) ? last : null,
+            experiment,
+        };
+    });
+
+    // Las divergidas (null) al final; entre ellas, el orden del grid (sort estable)
+    return trained
+        .sort((a, b) => {
+            if (a.finalError === null || b.finalError === null) {
+                return Number(a.finalError === null) - Number(b.finalError === null);
+            }
+            return a.finalError - b.finalError;
+        })
+        .map((run, i) => ({ rank: i + 1, ...run }));
+}
@@ -0,0 +1,353 @@
+// lib/train-request.ts
+
+import { generateDataset, resolveSyntheticOptions, SYNTHETIC_DATASETS } from './dataset-generators';
+import { parseCsvDataset, validateDataset, type DatasetParseResult } from './dataset-upload';
+import { numClasses, outputActivationFor, resolveEarlyStopping, trainSteps } from './nn-engine';
+import { analyzeTraining } from './nn-insights';
+import { getIrisDataset, IRIS_TEST_INPUT } from './nn-iris';
+import { resolveOptimizerConfig } from './nn-optimizers';
+import { resolveLrSchedule } from './nn-schedules';
+import { getSalesAmountDataset, getSalesDataset, SALES_AMOUNT_TEST_INPUT, SALES_TEST_INPUT } from './nn-sales';
+import { getSatisfactionDataset, SATISFACTION_TEST_INPUT } from './nn-satisfaction';
+import { resolveValidationSplit, splitIndices } from './nn-split';
+import type {
+    ActivationFn,
+    Dataset,
+    ExperimentConfig,
+    ExperimentResult,
+    HiddenLayerConfig,
+    LossFn,
+    LrScheduleConfig,
+    LrScheduleName,
+    NormalizationName,
+    OptimizerConfig,
+    OptimizerName,
+    SyntheticDatasetName,
+    TaskType,
+    TrainingPoint,
+    TrainMeta,
+    ValidationMethod,
+    ValidationSplitConfig,
+} from './types';
+
+/**
+ * Límite de épocas por corrida. En el servidor, acotado para no bloquear la API;
+ * en el navegador (Web Worker) el cómputo es del alumno y se puede cancelar.
+ */
+export const TRAIN_LIMITS = {
+    maxEpochs: 50_000,
+    maxEpochsInBrowser: 200_000,
+} as const;
+
+/**
+ * Hiperparámetros ya validados de una corrida (lo que termina en TrainMeta).
+ */
+export type TrainParams = Omit<TrainMeta, 'layers' | 'stoppedEpoch' | 'stopReason'> & { layers: HiddenLayerConfig[] };
+
+/**
+ * Tipo de tarea (?task=classification|regression).
+ * Sin parámetro: regresión para model=salesAmount, clasificación para el resto.
+ */
+export function resolveTask(searchParams: URLSearchParams): TaskType {
+    const taskParam = searchParams.get('task');
+    if (taskParam === 'regression' || taskParam === 'classification') return taskParam;
+    return searchParams.get('model') === 'salesAmount' ? 'regression' : 'classification';
+}
+
+/**
+ * Valida y sanea los hiperparámetros de la query string (?epochs=...&learningRate=...).
+ * Nunca falla: los valores inválidos caen a sus defaults.
+ *
+ * `datasetSize` se usa para resolver el split y acotar batchSize
+ * (batchSize=full = toda la parte de train). `maxEpochs`: ver TRAIN_LIMITS.
+ */
+export function parseTrainParams(
+    searchParams: URLSearchParams,
+    datasetSize: number,
+    maxEpochs: number = TRAIN_LIMITS.maxEpochs
+): TrainParams {
+    // Activación permitida
+    const allowedActivations = new Set<ActivationFn>(['sigmoid', 'tanh', 'relu']);
+    const activationParam = (searchParams.get('activation') || 'sigmoid') as ActivationFn;
+    const activation: ActivationFn = allowedActivations.has(activationParam)
+        ? activationParam
+        : 'sigmoid';
+
+    // Pérdida permitida según la tarea (cce = multi-clase con salida softmax)
+    const task = resolveTask(searchParams);
+    const allowedLosses = new Set<LossFn>(task === 'regression' ? ['mse', 'mae', 'huber'] : ['mse', 'bce', 'cce']);
+    const lossParam = (searchParams.get('loss') || 'mse') as LossFn;
+    const loss: LossFn = allowedLosses.has(lossParam) ? lossParam : 'mse';
+
+    // Capas ocultas (MLP): "4,3" o "4:tanh,3:relu".
+    // Sin sufijo se usa la activación seleccionada. Límites: 4 capas, 1..32 neuronas.
+    const layers: HiddenLayerConfig[] = (searchParams.get('layers') || '')
+        .split(',')
+        .map((part) => part.trim())
+        .filter(Boolean)
+        .slice(0, 4)
+        .map((part) => {
+            const [unitsRaw, actRaw] = part.split(':');
+            const units = parseInt(unitsRaw, 10);
+            const act = (actRaw || activation) as ActivationFn;
+            return {
+                units: Number.isFinite(units) ? Math.min(Math.max(1, units), 32) : 1,
+                activation: allowedActivations.has(act) ? act : activation,
+            };
+        });
+
+    // Epochs: límites razonables para UX (evita bloquear la UI)
+    const epochsRaw = parseInt(searchParams.get('epochs') || '2000', 10);
+    const epochs = Number.isFinite(epochsRaw) ? Math.min(Math.max(1, epochsRaw), maxEpochs) : 2000;
+
+    // Learning rate: debe ser positivo y finito
+    const learningRateRaw = parseFloat(searchParams.get('learningRate') || '0.01');
+    const learningRate =
+        Number.isFinite(learningRateRaw) && learningRateRaw > 0 ? learningRateRaw : 0.01;
+
+    // Seed opcional para reproducibilidad (si no es válido, se ignora)
+    const seedRaw = searchParams.get('seed');
+    const seed =
+        seedRaw !== null && !Number.isNaN(parseInt(seedRaw, 10)) ? parseInt(seedRaw, 10) : undefined;
+
+    // Split train/validación (seed del split: la del entrenamiento si no se indica)
+    const allowedValidation = new Set<ValidationMethod>(['none', 'holdout', 'kfold']);
+    const validationParam = (searchParams.get('validation') || 'none') as ValidationMethod;
+    const optionalNumber = (key: string) => {
+        const raw = searchParams.get(key);
+        return raw !== null ? parseFloat(raw) : undefined;
+    };
+    const validation: ValidationSplitConfig = resolveValidationSplit(
+        {
+            method: allowedValidation.has(validationParam) ? validationParam : 'none',
+            ratio: optionalNumber('valRatio'),
+            folds: optionalNumber('folds'),
+            fold: optionalNumber('fold'),
+            seed: optionalNumber('splitSeed'),
+        },
+        datasetSize,
+        seed
+    );
+    const trainSize = splitIndices(datasetSize, validation).train.length;
+
+    // Batch: "full" = toda la parte de train; enteros se acotan a [1, nTrain] (default: 1 = SGD)
+    const maxBatch = Math.max(1, trainSize);
+    const batchSizeParam = searchParams.get('batchSize');
+    const batchSizeRaw = batchSizeParam === 'full' ? maxBatch : parseInt(batchSizeParam || '1', 10);
+    const batchSize = Number.isFinite(batchSizeRaw) ? Math.min(Math.max(1, batchSizeRaw), maxBatch) : 1;
+
+    // Barajado por época (usa el PRNG con seed → reproducible)
+    const shuffleParam = searchParams.get('shuffle');
+    const shuffle = shuffleParam === 'true' || shuffleParam === '1';
+
+    // Optimizador + hiperparámetros (valores inválidos → defaults del optimizador)
+    const allowedOptimizers = new Set<OptimizerName>(['sgd', 'momentum', 'nesterov', 'rmsprop', 'adam']);
+    const optimizerParam = (searchParams.get('optimizer') || 'sgd') as OptimizerName;
+    const optimizer: OptimizerConfig = resolveOptimizerConfig({
+        name: allowedOptimizers.has(optimizerParam) ? optimizerParam : 'sgd',
+        momentum: optionalNumber('momentum'),
+        beta1: optionalNumber('beta1'),
+        beta2: optionalNumber('beta2'),
+        epsilon: optionalNumber('epsilon'),
+    });
+
+    // Schedule de learning rate (defaults relativos a las épocas)
+    const allowedSchedules = new Set<LrScheduleName>(['constant', 'step', 'exponential', 'cosine', 'warmup']);
+    const scheduleParam = (searchParams.get('schedule') || 'constant') as LrScheduleName;
+    const lrSchedule: LrScheduleConfig = resolveLrSchedule(
+        {
+            name: allowedSchedules.has(scheduleParam) ? scheduleParam : 'constant',
+            gamma: optionalNumber('gamma'),
+            stepSize: optionalNumber('stepSize'),
+            minLearningRate: optionalNumber('minLearningRate'),
+            warmupEpochs: optionalNumber('warmupEpochs'),
+        },
+        epochs
+    );
+
+    // Normalización de características (el scaler se ajusta en el motor)
+    const allowedNormalizations = new Set<NormalizationName>(['none', 'minmax', 'zscore']);
+    const normalizationParam = (searchParams.get('normalization') || 'none') as NormalizationName;
+    const normalization: NormalizationName = allowedNormalizations.has(normalizationParam)
+        ? normalizationParam
+        : 'none';
+
+    // Early stopping por meseta: solo si viene patience (épocas sin mejorar al menos minDelta)
+    const earlyStopping = resolveEarlyStopping({
+        patience: optionalNumber('patience'),
+        minDelta: optionalNumber('minDelta'),
+    });
+
+    // Control de densidad del history (ideal para sliders y animaciones)
+    // Ej: ~200 puntos máximo en la gráfica
+    const logEvery = Math.max(1, Math.floor(epochs / 200));
+
+    return {
+        epochs,
+        learningRate,
+        activation,
+        layers,
+        loss,
+        seed,
+        batchSize,
+        shuffle,
+        optimizer,
+        lrSchedule,
+        normalization,
+        validation,
+        ...(earlyStopping ? { earlyStopping } : {}),
+        ...(task === 'regression' ? { task } : {}),
+        logEvery,
+    };
+}
+
+/**
+ * Dataset de una petición GET (?model=...): ejercicios incluidos o sintéticos.
+ * `extraConfig` es lo que hay que guardar en la config para repetir el experimento.
+ */
+export function resolveQueryDataset(searchParams: URLSearchParams): {
+    model: 'sales' | 'salesAmount' | 'satisfaction' | 'iris' | SyntheticDatasetName;
+    dataset: Dataset;
+    testInput?: number[];
+    extraConfig?: Partial<ExperimentConfig>;
+} {
+    // Modelo permitido (evita valores arbitrarios)
+    const allowedModels = new Set<string>(['sales', 'salesAmount', 'satisfaction', 'iris', ...SYNTHETIC_DATASETS]);
+    const modelParam = searchParams.get('model');
+    const model = allowedModels.has(modelParam || '')
+        ? (modelParam as 'sales' | 'salesAmount' | 'satisfaction' | 'iris' | SyntheticDatasetName)
+        : 'satisfaction';
+
+    // Ejercicio multi-clase (3 clases)
+    if (model === 'iris') return { model, dataset: getIrisDataset(), testInput: IRIS_TEST_INPUT };
+
+    // Ejercicio de regresión (importe de ventas)
+    if (model === 'salesAmount') return { model, dataset: getSalesAmountDataset(), testInput: SALES_AMOUNT_TEST_INPUT };
+
+    // Dataset sintético: se genera con sus propias opciones (y su propia seed)
+    if (model !== 'sales' && model !== 'satisfaction') {
+        const optionalNumber = (key: string) => {
+            const raw = searchParams.get(key);
+            return raw !== null ? parseFloat(raw) : undefined;
+        };
+        const synthetic = resolveSyntheticOptions({
+            n: optionalNumber('n'),
+            noise: optionalNumber('noise'),
+            dataSeed: optionalNumber('dataSeed'),
+        });
+        return { model, dataset: generateDataset(model, synthetic), extraConfig: { synthetic } };
+    }
+
+    // Ambos ejercicios usan el mismo motor; solo cambian dataset y punto de prueba
+    return model === 'sales'
+        ? { model, dataset: getSalesDataset(), testInput: SALES_TEST_INPUT }
+        : { model, dataset: getSatisfactionDataset(), testInput: SATISFACTION_TEST_INPUT };
+}
+
+/**
+ * Dataset del body de un POST:
+ * - text/csv o text/plain: CSV directo
+ * - JSON: { X, y } o { csv }
+ *
+ * En regresión (`task`) la última columna / y es un valor continuo.
+ */
+export function parseDatasetBody(
+    body: string,
+    contentType: string,
+    task: TaskType = 'classification'
+): DatasetParseResult {
+    if (contentType.includes('text/csv') || contentType.includes('text/plain')) {
+        return parseCsvDataset(body, task);
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(body);
+    } catch {
+        return { error: 'El body no es JSON válido.' };
+    }
+    return typeof json === 'object' && json !== null && typeof (json as { csv?: unknown }).csv === 'string'
+        ? parseCsvDataset((json as { csv: string }).csv, task)
+        : validateDataset(json, task);
+}
+
+/**
+ * Entrena con el motor compartido y arma el ExperimentResult (config + meta + result).
+ *
+ * `extraConfig` permite añadir lo que identifica al dataset (p. ej. el dataset
+ * subido por el usuario) para que el experimento se pueda exportar y repetir.
+ */
+export function runExperiment(
+    model: ExperimentConfig['model'],
+    dataset: Dataset,
+    params: TrainParams,
+    testInput?: number[],
+    extraConfig?: Partial<ExperimentConfig>
+): ExperimentResult {
+    const steps = experimentSteps(model, dataset, params, testInput, extraConfig);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+}
+
+/**
+ * Hiperparámetros que realmente se entrenan (lo que termina en meta):
+ * - más de 2 clases: solo tiene sentido softmax + categorical cross-entropy
+ * - BCE: la salida es siempre sigmoid
+ * - outputActivation: la activación de salida usada (softmax, linear en regresión, ...)
+ *
+ * experimentSteps los aplica; el evento meta del streaming los usa para no
+ * anunciar una pérdida o activación distinta de la entrenada.
+ */
+export function effectiveTrainParams(dataset: Dataset, params: TrainParams): TrainParams {
+    const task = params.task ?? 'classification';
+    const multiclass = task !== 'regression' && numClasses(dataset.y) > 2;
+    const effective: TrainParams = multiclass
+        ? { ...params, loss: 'cce' }
+        : params.loss === 'bce'
+        ? { ...params, activation: 'sigmoid' }
+        : params;
+
+    const loss = effective.loss ?? 'mse';
+    const classes = task !== 'regression' && loss === 'cce' ? numClasses(dataset.y) : 1;
+    return { ...effective, outputActivation: outputActivationFor(effective.activation, loss, task, classes) };
+}
+
+/**
+ * Igual que runExperiment, pero paso a paso (ver trainSteps: un yield por época,
+ * null si la época no se registra) y devuelve el ExperimentResult al terminar.
+ */
+export function* experimentSteps(
+    model: ExperimentConfig['model'],
+    dataset: Dataset,
+    params: TrainParams,
+    testInput?: number[],
+    extraConfig?: Partial<ExperimentConfig>
+): Generator<TrainingPoint | null, ExperimentResult, void> {
+    // cce con más de 2 clases, sigmoid con bce (ver effectiveTrainParams)
+    const effective = effectiveTrainParams(dataset, params);
+    const { logEvery, layers, outputActivation, ...hyper } = effective;
+
+    // Config del experimento (para export/import, A/B, etc.)
+    const config: ExperimentConfig = { model, ...hyper, layers, ...extraConfig };
+
+    const trained = yield* trainSteps(dataset, {
+        ...hyper,
+        logEvery,
+        hiddenLayers: layers,
+        testInput,
+    });
+
+    // Explicación viva: un insight por punto de history (se calcula una vez al terminar)
+    const insights = analyzeTraining(trained.history, {
+        dataset,
+        activation: outputActivation ?? hyper.activation,
+        hiddenLayers: layers,
+        scaler: trained.scaler,
+    });
+
+    // Meta del experimento (lo que realmente se usó, incluida la parada)
+    const meta: TrainMeta = { ...effective, stoppedEpoch: trained.stoppedEpoch, stopReason: trained.stopReason };
+
+    return { config, meta, result: { ...trained, insights } };
+}
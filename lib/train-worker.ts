@@ -0,0 +1,57 @@
+// lib/train-worker.ts
+
+import {
+    effectiveTrainParams,
+    experimentSteps,
+    parseDatasetBody,
+    parseTrainParams,
+    resolveQueryDataset,
+    resolveTask,
+    TRAIN_LIMITS,
+} from './train-request';
+import type { TrainStreamEvent, TrainWorkerRequest } from './types';
+
+/**
+ * Web Worker de entrenamiento (modo "en el navegador").
+ *
+ * Recorre exactamente el mismo camino que /api/train y /api/train/stream
+ * (query string → parseTrainParams → experimentSteps), así que con la misma
+ * seed el ExperimentResult es idéntico al del servidor. Única diferencia: admite
+ * más épocas (TRAIN_LIMITS.maxEpochsInBrowser).
+ *
+ * Un worker por corrida: cancelar = worker.terminate() desde la UI.
+ */
+const post = (event: TrainStreamEvent) => self.postMessage(event);
+
+self.onmessage = (e: MessageEvent<TrainWorkerRequest>) => {
+    const searchParams = new URLSearchParams(e.data.query);
+
+    try {
+        // Mismo origen del dataset que en el servidor: POST con JSON (custom) o ?model=...
+        let source;
+        if (e.data.dataset) {
+            const parsed = parseDatasetBody(JSON.stringify(e.data.dataset), 'application/json', resolveTask(searchParams));
+            if (!parsed.dataset) return post({ type: 'error', error: parsed.error });
+            source = { model: 'custom' as const, dataset: parsed.dataset, extraConfig: { dataset: parsed.dataset } };
+        } else {
+            source = resolveQueryDataset(searchParams);
+        }
+
+        const { model, dataset, extraConfig } = source;
+        const testInput = 'testInput' in source ? source.testInput : undefined;
+        const params = parseTrainParams(searchParams, dataset.X.length, TRAIN_LIMITS.maxEpochsInBrowser);
+        post({ type: 'meta', model, hyperparameters: effectiveTrainParams(dataset, params) });
+
+        const steps = experimentSteps(model, dataset, params, testInput, extraConfig);
+        let step = steps.next();
+        while (!step.done) {
+            if (step.value) post({ type: 'point', point: step.value });
+            step = steps.next();
+        }
+
+        post({ type: 'done', experiment: step.value });
+    } catch (error: unknown) {
+        console.error('Error al entrenar en el worker:', error);
+        post({ type: 'error', error: 'Error durante el entrenamiento del modelo.' });
+    }
+};
@@ -16,6 +16,18 @@ export interface TrainingPoint {
     /** Error promedio de la época (por ejemplo, MSE o BCE). */
     error: number;
 
+    /** Pérdida promedio sobre el conjunto de validación (solo con split). */
+    valError?: number;
+
+    /** Accuracy sobre el conjunto de validación, umbral ŷ ≥ 0.5 (solo con split; no en regresión). */
+    valAccuracy?: number;
+
+    /** Learning rate efectivo en esta época (según el schedule). */
+    learningRate?: number;
+
+    /** Función de pérdida con la que se calculó `error`. */
+    loss?: LossFn;
+
     /** Pesos del modelo en esta época. */
     weights?: number[];
 
@@ -27,16 +39,226 @@ export interface TrainingPoint {
 
     /** Salida del modelo después de la activación (ŷ). */
     yHat?: number;
+
+    /**
+     * Snapshot de todas las capas (solo redes con capas ocultas).
+     * En una sola neurona basta con weights/bias.
+     */
+    layers?: LayerWeights[];
+
+    /** Estado del optimizador (velocidad, momentos) tras esta época. */
+    optimizer?: OptimizerState;
+
+    /** Gradientes que produjeron los updates de esta época (flujo del gradiente). */
+    gradients?: GradientSnapshot;
+}
+
+/**
+ * Gradientes de una época: promedio por sample de dL/dθ, evaluado con los
+ * pesos vigentes en cada batch (lo que recibió el optimizador).
+ * El update va en sentido contrario: w ← w - α · dL/dw.
+ */
+export interface GradientSnapshot {
+    /** dL/dw promedio de la neurona de salida (uno por peso). */
+    weights: number[];
+
+    /** dL/db promedio de la neurona de salida. */
+    bias: number;
+
+    /** Norma L2 del gradiente promedio de toda la red. */
+    norm: number;
+
+    /** Norma por capa, de la primera oculta a la salida (solo MLP). */
+    layerNorms?: number[];
+}
+
+/**
+ * Dataset tabular: una fila de características por sample y su etiqueta.
+ * Es el contrato común entre los modelos y el motor de entrenamiento.
+ * Etiquetas: 0/1 (binario), índice de clase 0..K-1 (multi-clase) o valor continuo (regresión).
+ */
+export interface Dataset {
+    X: number[][];
+    y: number[];
 }
 
 /**
  * Resultado completo del entrenamiento de una red neuronal simple.
  */
 export interface TrainingResult {
+    /** Pesos de la neurona de salida (en una sola neurona: [w1, w2]). */
     weights: number[];
     bias: number;
     prediction: number;
     history: TrainingPoint[];
+
+    /** Red completa (capas ocultas + salida), suficiente para predecir. */
+    layers?: LayerParams[];
+
+    /**
+     * Scaler ajustado sobre X (los pesos están en el espacio normalizado).
+     * Para predecir: applyScaler(scaler, x) antes del forward.
+     */
+    scaler?: Scaler;
+
+    /** Métricas de clasificación del modelo final sobre el dataset completo. */
+    metrics?: ClassificationMetrics;
+
+    /** Número de clases (solo multi-clase: salida softmax con una neurona por clase). */
+    classes?: number;
+
+    /** Probabilidad de cada clase para el punto de prueba (solo multi-clase; prediction = argmax). */
+    probabilities?: number[];
+
+    /** Métricas multi-clase del modelo final (en lugar de `metrics`). */
+    multiclassMetrics?: MulticlassMetrics;
+
+    /** Métricas de regresión del modelo final (en lugar de `metrics`). */
+    regressionMetrics?: RegressionMetrics;
+
+    /** Explicación viva: un TrainingInsight por punto de history. */
+    insights?: TrainingInsight[];
+
+    /** Última época entrenada (epochs - 1 si no hubo parada anticipada). */
+    stoppedEpoch?: number;
+
+    /** Motivo de la parada (divergencia, early stopping o completed). */
+    stopReason?: StopReason;
+}
+
+/**
+ * Predicción de una fila (POST /api/predict).
+ */
+export interface PredictionRow {
+    /** Entrada tal como llegó (escala original). */
+    input: number[];
+
+    /** Pre-activación de la neurona de salida. */
+    z: number;
+    yHat: number;
+
+    /**
+     * Clase predicha: ŷ ≥ threshold → 1 (multi-clase: argmax de probabilities).
+     * No aplica a modelos de regresión (salida lineal).
+     */
+    predictedClass?: number;
+
+    /** Probabilidad de cada clase (solo modelos con salida softmax). */
+    probabilities?: number[];
+}
+
+/**
+ * Matriz de confusión binaria (clase positiva = 1).
+ */
+export interface ConfusionMatrix {
+    tp: number;
+    fp: number;
+    tn: number;
+    fn: number;
+}
+
+/**
+ * Punto de la curva ROC para un umbral dado.
+ */
+export interface RocPoint {
+    threshold: number;
+    fpr: number;
+    tpr: number;
+}
+
+/**
+ * Reporte de evaluación de un clasificador binario.
+ * Los cocientes sin denominador (p. ej. precision sin positivos predichos) valen 0.
+ */
+export interface ClassificationMetrics {
+    /** Umbral usado para decidir la clase (ŷ ≥ threshold → 1). */
+    threshold: number;
+    samples: number;
+
+    accuracy: number;
+    precision: number;
+    recall: number;
+    f1: number;
+    confusion: ConfusionMatrix;
+
+    /** Curva ROC de (0, 0) a (1, 1), umbrales decrecientes. */
+    roc: RocPoint[];
+
+    /** Área bajo la ROC (null si el dataset tiene una sola clase). */
+    auc: number | null;
+}
+
+/**
+ * Métricas de una clase en el reporte multi-clase (esa clase contra el resto).
+ */
+export interface ClassMetrics {
+    precision: number;
+    recall: number;
+    f1: number;
+
+    /** Samples reales de la clase. */
+    support: number;
+}
+
+/**
+ * Reporte de evaluación de un clasificador multi-clase (clase predicha = argmax).
+ */
+export interface MulticlassMetrics {
+    classes: number;
+    samples: number;
+    accuracy: number;
+
+    /** Promedio simple del F1 de cada clase. */
+    macroF1: number;
+
+    /** confusion[real][predicha] = número de samples. */
+    confusion: number[][];
+
+    /** Una entrada por clase (índice = clase). */
+    perClass: ClassMetrics[];
+}
+
+/**
+ * Reporte de evaluación de un modelo de regresión.
+ */
+export interface RegressionMetrics {
+    samples: number;
+
+    /** Coeficiente de determinación: 1 - SS_res / SS_tot (1 = ajuste perfecto). */
+    r2: number;
+
+    /** Error absoluto medio, en unidades del objetivo. */
+    mae: number;
+
+    /** Raíz del error cuadrático medio, en unidades del objetivo. */
+    rmse: number;
+}
+
+/**
+ * Pesos de una capa densa.
+ * weights[k][j] conecta la entrada j con la neurona k de la capa.
+ */
+export interface LayerWeights {
+    weights: number[][];
+    biases: number[];
+}
+
+/**
+ * Capa densa con su activación (lo necesario para hacer forward).
+ */
+export interface LayerParams extends LayerWeights {
+    activation: LayerActivation;
+}
+
+/**
+ * Capa oculta configurable de un perceptrón multicapa (MLP).
+ */
+export interface HiddenLayerConfig {
+    /** Número de neuronas de la capa. */
+    units: number;
+
+    /** Activación de la capa. */
+    activation: ActivationFn;
 }
 
 /* =========================================================
@@ -46,18 +268,207 @@ export interface TrainingResult {
 /**
  * Funciones de activación soportadas por el laboratorio.
  * Esto habilita comparación Sigmoid vs ReLU vs Tanh.
+ * linear (identidad) es la salida de la regresión: ŷ = z.
+ */
+export type ActivationFn = 'sigmoid' | 'relu' | 'tanh' | 'linear';
+
+/**
+ * Tipo de tarea:
+ * - classification: etiquetas de clase (0/1 o 0..K-1)
+ * - regression: objetivo continuo, salida lineal y métricas R²/MAE/RMSE
+ */
+export type TaskType = 'classification' | 'regression';
+
+/**
+ * Activación de una capa: las de arriba (por neurona) o softmax, que normaliza
+ * toda la capa de salida en probabilidades por clase (solo multi-clase).
+ */
+export type LayerActivation = ActivationFn | 'softmax';
+
+/**
+ * Datasets sintéticos 2D (binarios) del laboratorio.
+ */
+export type SyntheticDatasetName = 'xor' | 'moons' | 'circles' | 'spirals' | 'blobs';
+
+/**
+ * Opciones de un generador sintético.
+ */
+export interface SyntheticDatasetOptions {
+    /** Número de samples. */
+    n: number;
+
+    /** Ruido gaussiano (desviación estándar) sobre las coordenadas. */
+    noise: number;
+
+    /** Seed del generador (independiente de la seed de entrenamiento). */
+    dataSeed: number;
+}
+
+/**
+ * Partición train/validación.
+ * - none: se entrena y evalúa sobre todo el dataset
+ * - holdout: una fracción `ratio` se reserva para validación
+ * - kfold: el dataset se divide en `folds` partes y el fold `fold` valida
+ */
+export type ValidationMethod = 'none' | 'holdout' | 'kfold';
+
+/**
+ * Configuración del split (solo se usan los campos que aplican a cada método).
+ */
+export interface ValidationSplitConfig {
+    method: ValidationMethod;
+
+    /** Fracción de validación (holdout). */
+    ratio?: number;
+
+    /** Número de folds y fold usado para validar (kfold). */
+    folds?: number;
+    fold?: number;
+
+    /** Seed del barajado previo al split (reproducible). */
+    seed?: number;
+}
+
+/**
+ * Normalización de características.
+ * - none: sin transformar
+ * - minmax: (x - min) / (max - min) → [0, 1]
+ * - zscore: (x - media) / desviación estándar
+ */
+export type NormalizationName = 'none' | 'minmax' | 'zscore';
+
+/**
+ * Parámetros ajustados de una normalización: x' = (x - offset) / scale,
+ * una entrada por característica.
+ */
+export interface Scaler {
+    method: NormalizationName;
+    offset: number[];
+    scale: number[];
+}
+
+/**
+ * Funciones de pérdida soportadas.
+ * - mse: error cuadrático medio (educativo)
+ * - bce: binary cross-entropy (la habitual en clasificación binaria)
+ * - cce: categorical cross-entropy (salida softmax, una neurona por clase)
+ * - mae: error absoluto medio (regresión, robusto a outliers)
+ * - huber: cuadrática cerca de 0 y lineal lejos (regresión; δ = 1)
+ */
+export type LossFn = 'mse' | 'bce' | 'cce' | 'mae' | 'huber';
+
+/**
+ * Optimizadores soportados para el update de pesos.
+ */
+export type OptimizerName = 'sgd' | 'momentum' | 'nesterov' | 'rmsprop' | 'adam';
+
+/**
+ * Optimizador + hiperparámetros (solo se usan los que aplican a cada uno).
+ */
+export interface OptimizerConfig {
+    name: OptimizerName;
+
+    /** Momentum μ (momentum / nesterov). */
+    momentum?: number;
+
+    /** Decaimiento del primer momento (adam). */
+    beta1?: number;
+
+    /** Decaimiento del promedio de g² (rmsprop / adam). */
+    beta2?: number;
+
+    /** Término de estabilidad numérica (rmsprop / adam). */
+    epsilon?: number;
+}
+
+/**
+ * Estado interno del optimizador en un instante del entrenamiento.
+ * m y v tienen la misma forma que las capas de la red.
+ */
+export interface OptimizerState {
+    /** Número de updates aplicados (t en Adam). */
+    step: number;
+
+    /** Velocidad (momentum / nesterov) o primer momento (adam). */
+    m?: LayerWeights[];
+
+    /** Promedio de g² (rmsprop) o segundo momento (adam). */
+    v?: LayerWeights[];
+}
+
+/**
+ * Schedules de learning rate.
+ * - constant: α fijo
+ * - step: decaimiento escalonado
+ * - exponential: decaimiento exponencial continuo
+ * - cosine: cosine annealing hasta minLearningRate
+ * - warmup: warmup lineal y luego α fijo
+ */
+export type LrScheduleName = 'constant' | 'step' | 'exponential' | 'cosine' | 'warmup';
+
+/**
+ * Schedule + parámetros (solo se usan los que aplican a cada uno).
+ */
+export interface LrScheduleConfig {
+    name: LrScheduleName;
+
+    /** Factor de decaimiento (step / exponential). */
+    gamma?: number;
+
+    /** Épocas por cada factor gamma (step / exponential). */
+    stepSize?: number;
+
+    /** Learning rate final (cosine). */
+    minLearningRate?: number;
+
+    /** Épocas de warmup lineal (combinable con cualquier schedule). */
+    warmupEpochs?: number;
+}
+
+/**
+ * Early stopping por meseta de la pérdida de entrenamiento:
+ * se para si en `patience` épocas el error no mejora al menos `minDelta`.
+ */
+export interface EarlyStoppingConfig {
+    patience: number;
+    minDelta: number;
+}
+
+/**
+ * Por qué terminó el entrenamiento.
+ * - completed: se recorrieron todas las épocas
+ * - nonFinite: aparecieron NaN/Infinity en el error o en los pesos
+ * - exploding: el error creció órdenes de magnitud (divergencia; se conservan los últimos pesos sanos)
+ * - plateau: early stopping (sin mejora en `patience` épocas)
+ * Al divergir, stoppedEpoch es la época de los pesos conservados (el último punto de history).
  */
-export type ActivationFn = 'sigmoid' | 'relu' | 'tanh';
+export type StopReason = 'completed' | 'nonFinite' | 'exploding' | 'plateau';
 
 /**
  * Configuración completa de un experimento.
  * Esto es lo que se puede:
- * - comparar (A/B)
+ * - comparar (varias corridas)
  * - guardar
  * - volver a cargar
  */
 export interface ExperimentConfig {
-    model: 'sales' | 'satisfaction';
+    /**
+     * Dataset del experimento:
+     * - 'sales' | 'satisfaction' | 'iris': ejercicios incluidos (iris: 3 clases)
+     * - 'salesAmount': ejercicio de regresión (importe de ventas)
+     * - 'custom': subido por el usuario (ver `dataset`)
+     * - sintéticos: generados con `synthetic`
+     */
+    model: 'sales' | 'satisfaction' | 'iris' | 'salesAmount' | 'custom' | SyntheticDatasetName;
+
+    /** Tipo de tarea (default: classification) */
+    task?: TaskType;
+
+    /** Dataset del usuario (solo model = 'custom') */
+    dataset?: Dataset;
+
+    /** Opciones del generador (solo datasets sintéticos) */
+    synthetic?: SyntheticDatasetOptions;
 
     /** Hiperparámetros */
     epochs: number;
@@ -66,6 +477,31 @@ export interface ExperimentConfig {
     /** Activación seleccionada */
     activation: ActivationFn;
 
+    /** Capas ocultas (vacío/ausente = una sola neurona) */
+    layers?: HiddenLayerConfig[];
+
+    /** Función de pérdida (default: mse) */
+    loss?: LossFn;
+
+    /** Samples por update (1 = SGD, n = full-batch) y barajado por época */
+    batchSize?: number;
+    shuffle?: boolean;
+
+    /** Optimizador (default: sgd) */
+    optimizer?: OptimizerConfig;
+
+    /** Schedule de learning rate (default: constant) */
+    lrSchedule?: LrScheduleConfig;
+
+    /** Normalización de X (default: none) */
+    normalization?: NormalizationName;
+
+    /** Split train/validación (default: none) */
+    validation?: ValidationSplitConfig;
+
+    /** Early stopping por meseta (default: desactivado) */
+    earlyStopping?: EarlyStoppingConfig;
+
     /** Seed opcional para reproducibilidad */
     seed?: number;
 }
@@ -75,13 +511,44 @@ export interface ExperimentConfig {
  * No afectan el modelo, pero explican lo que pasó.
  */
 export interface TrainMeta {
+    /** Tipo de tarea (ausente = classification) */
+    task?: TaskType;
+
     epochs: number;
     learningRate: number;
     activation: ActivationFn;
+    layers?: HiddenLayerConfig[];
+    loss?: LossFn;
     seed?: number;
 
+    /** Activación de la capa de salida realmente usada (softmax en multi-clase, linear en regresión) */
+    outputActivation?: LayerActivation;
+
+    /** Samples por update realmente usados (acotado al tamaño del dataset) */
+    batchSize?: number;
+    shuffle?: boolean;
+
+    /** Optimizador con los hiperparámetros efectivos (defaults resueltos) */
+    optimizer?: OptimizerConfig;
+
+    /** Schedule de learning rate efectivo (defaults resueltos) */
+    lrSchedule?: LrScheduleConfig;
+
+    /** Normalización aplicada a X (el scaler ajustado está en result.scaler) */
+    normalization?: NormalizationName;
+
+    /** Split train/validación efectivo (defaults resueltos) */
+    validation?: ValidationSplitConfig;
+
+    /** Early stopping por meseta (ausente = desactivado) */
+    earlyStopping?: EarlyStoppingConfig;
+
     /** Cada cuántas épocas se guardó history */
     logEvery: number;
+
+    /** Última época entrenada y motivo de la parada (se completan al terminar) */
+    stoppedEpoch?: number;
+    stopReason?: StopReason;
 }
 
 /**
@@ -98,12 +565,84 @@ export interface ExperimentResult {
 }
 
 /**
- * Experimento A/B: dos corridas comparables.
- * Ej: mismo seed, distinto learning rate o activación.
+ * Evento del streaming de entrenamiento (/api/train/stream, una línea NDJSON por evento):
+ * - meta: hiperparámetros efectivos, antes de empezar
+ * - point: cada TrainingPoint en cuanto se registra
+ * - done: experimento completo (mismo formato que /api/train)
+ * - error: el entrenamiento falló
+ */
+export type TrainStreamEvent =
+    | { type: 'meta'; model: ExperimentConfig['model']; hyperparameters: TrainMeta }
+    | { type: 'point'; point: TrainingPoint }
+    | { type: 'done'; experiment: ExperimentResult }
+    | { type: 'error'; error: string };
+
+/**
+ * Mensaje para el Web Worker de entrenamiento (lib/train-worker.ts).
+ * query: la misma query string que /api/train; dataset: el body del POST (model = 'custom').
+ * El worker responde con los mismos TrainStreamEvent que /api/train/stream.
+ */
+export interface TrainWorkerRequest {
+    query: string;
+    dataset?: Dataset;
+}
+
+/**
+ * Experimento guardado en el store del servidor (/api/experiments).
+ */
+export interface StoredExperiment {
+    id: string;
+    name: string;
+
+    /** ISO 8601 */
+    createdAt: string;
+
+    experiment: ExperimentResult;
+}
+
+/**
+ * Resumen de un experimento guardado (lo que devuelve el listado).
+ */
+export interface ExperimentSummary {
+    id: string;
+    name: string;
+    createdAt: string;
+
+    model: ExperimentConfig['model'];
+    activation: ActivationFn;
+    epochs: number;
+    learningRate: number;
+
+    /** Error de la última época registrada. */
+    finalError: number | null;
+
+    /** Accuracy del modelo final (si el resultado trae métricas de clasificación). */
+    accuracy?: number;
+
+    /** R² del modelo final (regresión). */
+    r2?: number;
+}
+
+/**
+ * Comparación de N corridas, cada una con su propia config completa.
+ * Ej: mismo seed, distinto learning rate o activación; o distinto modelo.
  */
 export interface ExperimentComparison {
-    left: ExperimentResult;
-    right: ExperimentResult;
+    runs: ExperimentResult[];
+}
+
+/**
+ * Corrida de un barrido de hiperparámetros (/api/sweep), ya rankeada.
+ * finalError: error de la última época registrada (null si divergió).
+ */
+export interface SweepRun {
+    rank: number;
+    learningRate: number;
+    activation: ActivationFn;
+    epochs: number;
+    seed?: number;
+    finalError: number | null;
+    experiment: ExperimentResult;
 }
 
 /* =========================================================
@@ -119,13 +658,30 @@ export interface ParameterDelta {
     delta: number;
 }
 
+/**
+ * Fenómeno principal de una época (el que explica el mensaje).
+ */
+export type InsightKind =
+    | 'start'
+    | 'learning'
+    | 'converged'
+    | 'plateau'
+    | 'oscillation'
+    | 'divergence'
+    | 'saturation'
+    | 'deadRelu';
+
 /**
  * Análisis simple de una época (interpretabilidad).
+ * Uno por punto de history (lib/nn-insights.ts), en el mismo orden.
  */
 export interface TrainingInsight {
     epoch: number;
 
-    /** Cambios relevantes en pesos */
+    /** Fenómeno principal (define el mensaje) */
+    kind: InsightKind;
+
+    /** Cambios relevantes en pesos (neurona de salida, mayores primero) */
     weightDeltas: ParameterDelta[];
 
     /** Cambio en bias */
@@ -134,6 +690,37 @@ export interface TrainingInsight {
     /** Indica posible saturación de la activación */
     saturated?: boolean;
 
+    /** Neuronas ReLU que devuelven 0 para todo el dataset */
+    deadRelu?: number;
+
+    /** El error explota (crece mucho o deja de ser finito) */
+    diverging?: boolean;
+
+    /** El error apenas cambia en las últimas épocas registradas */
+    plateau?: boolean;
+
+    /** El error sube y baja alternadamente (learning rate alto) */
+    oscillating?: boolean;
+
     /** Mensaje pedagógico para el alumno */
     message: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Superficie de pérdida de una neurona sobre una rejilla de (w₁, w₂),
+ * con el resto de pesos y el bias fijos.
+ */
+export interface LossLandscape {
+    /** Valores de w₁ (columnas de la rejilla). */
+    w1: number[];
+
+    /** Valores de w₂ (filas de la rejilla). */
+    w2: number[];
+
+    /** Pérdida media: values[j][i] corresponde a (w1[i], w2[j]). */
+    values: number[][];
+
+    /** Mínimo y máximo de values (para la escala de color). */
+    min: number;
+    max: number;
+}